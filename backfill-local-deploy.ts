@@ -4,7 +4,8 @@
  * This script runs locally (not on Val.town) to bypass timeout limits.
  * It fetches all pages from Notion, detects duplicates in-memory, and tags them.
  * 
- * Configured for client's Notion database:
+ * Property mapping comes from shared/config.ts (env vars MATCH_PROPERTY,
+ * TAG_PROPERTY, TAG_LABEL or DUPLICATE_CHECKER_CONFIG). Defaults:
  * - Property name: "клиент" (Russian, instead of "Name")
  * - Tag property: "Duplicate Flag" (instead of "Tags")
  * 
@@ -12,9 +13,46 @@
  *   NOTION_TOKEN=your_token NOTION_DATABASE_ID=your_db_id \
  *     deno run --allow-net --allow-env backfill-local-deploy.ts
  * 
+ * Set DUPLICATE_CHECKER_URL to the webhook Val's URL to skip page pairs
+ * that reviewers confirmed as "Not Duplicate" (read from its /exceptions
+ * route). Pages whose tag is set to "Not Duplicate" are skipped either way.
+ * 
  * After this completes, run the index-builder Val on Val.town to populate the SQLite index.
+ * 
+ * Merge subcommand (preview only, unless --apply is given):
+ *   deno run --allow-net --allow-env backfill-local-deploy.ts merge \
+ *     (--group <id> | --pages <id>,<id>,...) [--canonical <id>] [--apply]
+ * 
+ * --group needs DUPLICATE_CHECKER_URL to look the group up.
  */
 
+import { loadConfig, tagLabels } from "./shared/config.ts";
+import { findSimilarPairs } from "./shared/fuzzy.ts";
+import { extractMatchKeys } from "./shared/match-keys.ts";
+import { chooseCanonical, formatMergeComment, planMerge } from "./shared/merge.ts";
+import { createNotionClient } from "./shared/notion-client.ts";
+import { normalizeName } from "./shared/normalize.ts";
+import { type NotionProperties, propertyToString } from "./shared/properties.ts";
+import { buildRelationUpdate, validateRelationProperty } from "./shared/relations.ts";
+import { transliterationKey } from "./shared/transliterate.ts";
+import {
+  loadWebhookSecrets,
+  SHARED_SECRET_HEADER,
+  SIGNATURE_HEADER,
+  signBody,
+} from "./shared/webhook-auth.ts";
+import {
+  buildTagUpdate,
+  hasNotDuplicateMark,
+  hasTag,
+  type NotionDatabase,
+  resolveTagProperty,
+  type TagPropertySchema,
+  type TagPropertyValue,
+} from "./shared/tag-property.ts";
+
+const config = loadConfig();
+
 /**
  * Configuration
  * 
@@ -23,29 +61,23 @@
  * 
  * BATCH_SIZE: Notion API maximum (100 pages per request).
  * 
- * RATE_LIMIT_DELAY: Small delay between API calls to stay under Notion's
- * 3 req/sec rate limit. 100ms = ~10 req/sec, but we also have exponential
- * backoff if we hit 429 errors.
+ * Rate limiting and retries (429 with Retry-After, 5xx, timeouts) are
+ * handled by the shared Notion client (shared/notion-client.ts).
  * 
  * WHY run locally: No Val.town timeout constraints. Can process 150k+ records
  * in ~15 minutes without worrying about 1-minute execution limits.
  */
 const DRY_RUN = false; // Set to true to test without making changes
 const BATCH_SIZE = 100;
-const RATE_LIMIT_DELAY = 100; // 100ms between API calls
-const NOTION_API_BASE = "https://api.notion.com/v1";
-const NOTION_VERSION = "2022-06-28";
+const notion = createNotionClient();
 
 interface NotionPage {
   id: string;
-  properties: {
-    клиент?: {
-      title: Array<{ plain_text: string }>;
-    };
-    "Duplicate Flag"?: {
-      multi_select: Array<{ name: string }>;
-    };
-  };
+  created_time: string;
+  last_edited_time?: string;
+  properties: NotionProperties;
+  archived?: boolean;
+  in_trash?: boolean;
 }
 
 interface NotionQueryResponse {
@@ -54,77 +86,6 @@ interface NotionQueryResponse {
   has_more: boolean;
 }
 
-/**
- * Normalize name for comparison (trim and lowercase)
- */
-function normalizeName(name: string): string {
-  return name.trim().toLowerCase();
-}
-
-/**
- * Get Notion API headers
- */
-function getNotionHeaders(): HeadersInit {
-  const token = Deno.env.get("NOTION_TOKEN");
-  if (!token) {
-    throw new Error("NOTION_TOKEN environment variable is not set");
-  }
-
-  return {
-    "Authorization": `Bearer ${token}`,
-    "Notion-Version": NOTION_VERSION,
-    "Content-Type": "application/json",
-  };
-}
-
-/**
- * Retry a function with exponential backoff
- */
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelay: number = 1000,
-): Promise<T> {
-  let lastError: any;
-
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-
-      /**
-       * Check if it's a retryable error
-       * 
-       * WHY retry server errors: Notion API occasionally returns 5xx errors
-       * during high load. These are transient and usually resolve quickly.
-       * Retrying with backoff is better than failing the entire backfill.
-       */
-      const isRateLimit = error.message?.includes("429") || error.message?.includes("Rate limit");
-      const isServerError = error.message?.includes("502") || 
-                          error.message?.includes("500") || 
-                          error.message?.includes("503") ||
-                          error.message?.includes("504") ||
-                          error.message?.includes("Internal server error");
-      
-      if (isRateLimit || isServerError) {
-        const delay = initialDelay * Math.pow(2, i);
-        const errorType = isRateLimit ? "Rate limit" : "Server error";
-        console.log(
-          `  ${errorType} hit, retrying in ${delay}ms... (attempt ${i + 1}/${maxRetries})`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        continue;
-      }
-
-      // If it's not a retryable error, throw immediately
-      throw error;
-    }
-  }
-
-  throw lastError;
-}
-
 /**
  * Query Notion database with pagination
  */
@@ -141,98 +102,106 @@ async function queryNotionDatabase(
     body.start_cursor = startCursor;
   }
 
-  const response = await retryWithBackoff(() =>
-    fetch(
-      `${NOTION_API_BASE}/databases/${databaseId}/query`,
-      {
-        method: "POST",
-        headers: getNotionHeaders(),
-        body: JSON.stringify(body),
-      },
-    )
-  );
+  return await notion.queryDatabase<NotionQueryResponse>(databaseId, body);
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to query Notion database: ${response.status} ${errorText}`,
-    );
+/**
+ * Set a duplicate label on a page's tag property
+ *
+ * The payload shape follows the tag property type from the database schema,
+ * so existing multi_select tags are preserved and select/status are replaced.
+ * A page that already carries the exact-duplicate label is never downgraded
+ * to the possible-duplicate label.
+ */
+async function updateNotionTags(
+  pageId: string,
+  tagProperty: TagPropertySchema,
+  currentValue: TagPropertyValue | undefined,
+  label: string,
+): Promise<boolean> {
+  if (
+    hasTag(tagProperty, currentValue, label) ||
+    (label !== config.tagLabel &&
+      hasTag(tagProperty, currentValue, config.tagLabel))
+  ) {
+    return false; // Already tagged, skip
   }
 
-  return await response.json();
+  if (DRY_RUN) {
+    console.log(`  [DRY RUN] Would tag page ${pageId} as "${label}"`);
+    return true;
+  }
+
+  await notion.updatePageProperties(
+    pageId,
+    buildTagUpdate(tagProperty, currentValue, label, [config.notDuplicateLabel]),
+  );
+
+  console.log(`  Tagged page ${pageId} as "${label}"`);
+  return true;
 }
 
 /**
- * Fetch a page from Notion API
+ * Key for a page pair, independent of order
  */
-async function fetchNotionPage(pageId: string): Promise<NotionPage> {
-  const response = await retryWithBackoff(() =>
-    fetch(`${NOTION_API_BASE}/pages/${pageId}`, {
-      method: "GET",
-      headers: getNotionHeaders(),
-    })
-  );
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to fetch Notion page ${pageId}: ${response.status} ${errorText}`,
-    );
+/**
+ * Call one of the webhook Val's API routes
+ *
+ * Sends the same credentials the Val checks (shared/webhook-auth.ts), so
+ * set WEBHOOK_SHARED_SECRET or WEBHOOK_SIGNING_SECRET here as in the Val.
+ */
+async function fetchChecker(
+  baseUrl: string,
+  path: string,
+  body?: unknown,
+): Promise<Response> {
+  const rawBody = body === undefined ? "" : JSON.stringify(body);
+  const secrets = loadWebhookSecrets();
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (secrets.sharedSecret) {
+    headers[SHARED_SECRET_HEADER] = secrets.sharedSecret;
+  }
+  if (secrets.signingSecret) {
+    headers[SIGNATURE_HEADER] = await signBody(secrets.signingSecret, rawBody);
   }
 
-  return await response.json();
+  return await fetch(`${baseUrl.replace(/\/+$/, "")}${path}`, {
+    method: body === undefined ? "GET" : "POST",
+    headers,
+    body: body === undefined ? undefined : rawBody,
+  });
 }
 
 /**
- * Update Tags property on a Notion page
+ * Load the "Not Duplicate" exceptions recorded by the webhook Val
+ *
+ * WHY over HTTP: Exceptions live in the Val's SQLite database, which this
+ * local script cannot open. Without DUPLICATE_CHECKER_URL only the Notion
+ * labels are respected.
+ *
+ * @returns Keys of confirmed-distinct pairs (see pairKey)
  */
-async function updateNotionTags(
-  pageId: string,
-  existingTags: Array<{ name: string }>,
-): Promise<boolean> {
-  // Check if "Duplicate" tag already exists
-  const hasDuplicateTag = existingTags.some(
-    (tag) => tag.name.toLowerCase() === "duplicate",
-  );
-
-  if (hasDuplicateTag) {
-    return false; // Already tagged, skip
+async function fetchExceptions(): Promise<Set<string>> {
+  const baseUrl = Deno.env.get("DUPLICATE_CHECKER_URL");
+  if (!baseUrl) {
+    console.log("  DUPLICATE_CHECKER_URL not set: only \"Not Duplicate\" labels are respected\n");
+    return new Set();
   }
 
-  if (DRY_RUN) {
-    console.log(`  [DRY RUN] Would tag page ${pageId} as "Duplicate"`);
-    return true;
+  const response = await fetchChecker(baseUrl, "/exceptions");
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load exceptions from ${baseUrl}: ${response.status} ${await response.text()}`,
+    );
   }
 
-  // Add "Duplicate" tag to existing tags
-  const updatedTags = [
-    ...existingTags,
-    { name: "Duplicate" },
-  ];
-
-  await retryWithBackoff(async () => {
-    const response = await fetch(`${NOTION_API_BASE}/pages/${pageId}`, {
-      method: "PATCH",
-      headers: getNotionHeaders(),
-      body: JSON.stringify({
-        properties: {
-          "Duplicate Flag": {
-            multi_select: updatedTags,
-          },
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to update Notion page ${pageId}: ${response.status} ${errorText}`,
-      );
-    }
-  });
-
-  console.log(`  Tagged page ${pageId} as "Duplicate"`);
-  return true;
+  const body: { pairs: Array<{ pageA: string; pageB: string }> } = await response.json();
+  console.log(`✅ Loaded ${body.pairs.length} "Not Duplicate" exceptions\n`);
+  return new Set(body.pairs.map((pair) => pairKey(pair.pageA, pair.pageB)));
 }
 
 /**
@@ -254,11 +223,6 @@ async function fetchAllPages(databaseId: string): Promise<NotionPage[]> {
     console.log(`  Fetched ${response.results.length} pages (total: ${allPages.length})`);
 
     cursor = response.next_cursor;
-
-    // Small delay to avoid rate limiting
-    if (cursor) {
-      await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY));
-    }
   } while (cursor);
 
   console.log(`✅ Fetched ${allPages.length} total pages\n`);
@@ -275,13 +239,13 @@ function buildDuplicateMap(
   const nameMap = new Map<string, NotionPage[]>();
 
   for (const page of pages) {
-    const name = page.properties["клиент"]?.title?.[0]?.plain_text;
+    const name = propertyToString(page.properties[config.matchProperty]);
     if (!name) {
-      console.log(`  ⚠️  Skipping page ${page.id} - no клиент property`);
+      console.log(`  ⚠️  Skipping page ${page.id} - no ${config.matchProperty} property`);
       continue;
     }
 
-    const normalizedName = normalizeName(name);
+    const normalizedName = normalizeName(name, config);
     if (!nameMap.has(normalizedName)) {
       nameMap.set(normalizedName, []);
     }
@@ -303,33 +267,205 @@ function buildDuplicateMap(
 }
 
 /**
- * Tag all duplicate pages
+ * Build duplicate groups from match keys (phone, email, tax ID)
+ *
+ * Keyed by "type:value" (e.g. "email:ivanpetrov@gmail.com"). Only keys
+ * shared by 2+ pages are kept. Pages may appear in several groups; tagging
+ * skips pages that are already tagged.
+ */
+function buildMatchKeyMap(pages: NotionPage[]): Map<string, NotionPage[]> {
+  console.log("🔍 Building match key map (phone/email/tax ID)...");
+  const keyMap = new Map<string, NotionPage[]>();
+
+  for (const page of pages) {
+    for (const key of extractMatchKeys(page.properties, config)) {
+      const mapKey = `${key.type}:${key.value}`;
+      if (!keyMap.has(mapKey)) {
+        keyMap.set(mapKey, []);
+      }
+      keyMap.get(mapKey)!.push(page);
+    }
+  }
+
+  for (const [mapKey, pagesWithKey] of keyMap) {
+    if (pagesWithKey.length <= 1) {
+      keyMap.delete(mapKey);
+    }
+  }
+
+  console.log(`✅ Found ${keyMap.size} shared match keys\n`);
+  return keyMap;
+}
+
+/**
+ * Build transliteration groups from the exact-match map
+ *
+ * Groups distinct normalized names that share a transliteration key, e.g.
+ * "иванов сергей" and "ivanov sergey". Names that are already identical
+ * are handled by the exact map, so only keys with 2+ names are kept.
+ */
+function buildTransliterationMap(
+  nameMap: Map<string, NotionPage[]>,
+): Map<string, NotionPage[]> {
+  console.log("🔍 Building transliteration map...");
+  const keyMap = new Map<string, string[]>();
+
+  for (const name of nameMap.keys()) {
+    const key = transliterationKey(name);
+    if (!key) {
+      continue;
+    }
+    if (!keyMap.has(key)) {
+      keyMap.set(key, []);
+    }
+    keyMap.get(key)!.push(name);
+  }
+
+  const translitMap = new Map<string, NotionPage[]>();
+  for (const [key, names] of keyMap) {
+    if (names.length > 1) {
+      translitMap.set(key, names.flatMap((name) => nameMap.get(name)!));
+    }
+  }
+
+  console.log(`✅ Found ${translitMap.size} transliteration groups\n`);
+  return translitMap;
+}
+
+/**
+ * Build fuzzy (possible duplicate) groups from the exact-match map
+ *
+ * Similar names are linked pairwise, then chained into groups with
+ * union-find, so "acme corp" ~ "acme corporation" ~ "acme corporation ltd"
+ * become one group even if the ends are not similar to each other.
+ */
+function buildPossibleDuplicateMap(
+  nameMap: Map<string, NotionPage[]>,
+): Map<string, NotionPage[]> {
+  console.log("🔍 Building possible duplicate map (fuzzy)...");
+  const names = [...nameMap.keys()];
+  const parent = names.map((_, i) => i);
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const pairs = findSimilarPairs(names, config.fuzzyThreshold);
+  for (const { a, b } of pairs) {
+    parent[find(a)] = find(b);
+  }
+
+  const groups = new Map<number, string[]>();
+  for (let i = 0; i < names.length; i++) {
+    const root = find(i);
+    if (!groups.has(root)) {
+      groups.set(root, []);
+    }
+    groups.get(root)!.push(names[i]);
+  }
+
+  const possibleMap = new Map<string, NotionPage[]>();
+  for (const groupNames of groups.values()) {
+    if (groupNames.length > 1) {
+      possibleMap.set(
+        groupNames.join(" | "),
+        groupNames.flatMap((name) => nameMap.get(name)!),
+      );
+    }
+  }
+
+  console.log(
+    `✅ Found ${pairs.length} similar name pairs in ${possibleMap.size} possible duplicate groups\n`,
+  );
+  return possibleMap;
+}
+
+/**
+ * Exact-duplicate groups collected across tagging steps (union-find parents)
+ *
+ * WHY union-find: The same page can be grouped by name in one step and by
+ * phone in another; both steps' groups must end up as one duplicate group.
+ */
+type GroupParents = Map<string, string>;
+
+function findGroupRoot(parents: GroupParents, id: string): string {
+  let root = id;
+  while (parents.get(root) !== root) {
+    root = parents.get(root)!;
+  }
+  parents.set(id, root);
+  return root;
+}
+
+function addToGroups(parents: GroupParents, pageIds: string[]): void {
+  for (const id of pageIds) {
+    if (!parents.has(id)) {
+      parents.set(id, id);
+    }
+  }
+  for (const id of pageIds.slice(1)) {
+    parents.set(findGroupRoot(parents, id), findGroupRoot(parents, pageIds[0]));
+  }
+}
+
+function collectGroups(parents: GroupParents): string[][] {
+  const groups = new Map<string, string[]>();
+  for (const id of parents.keys()) {
+    const root = findGroupRoot(parents, id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Tag all pages in groups with more than one page
+ *
+ * @param groups - Collects the tagged groups (exact-duplicate steps only)
  */
 async function tagDuplicates(
   nameMap: Map<string, NotionPage[]>,
+  tagProperty: TagPropertySchema,
+  label: string,
+  isDistinct: (a: string, b: string) => boolean,
+  groups?: GroupParents,
 ): Promise<{ totalDuplicates: number; tagged: number; skipped: number }> {
-  console.log("🏷️  Tagging duplicate pages...");
+  console.log(`🏷️  Tagging pages as "${label}"...`);
 
   let totalDuplicates = 0;
   let tagged = 0;
   let skipped = 0;
   let processed = 0;
 
-  for (const [name, pages] of nameMap) {
+  for (const [name, groupPages] of nameMap) {
+    // A page is only a duplicate if some other member is not confirmed distinct
+    const pages = groupPages.filter((page) =>
+      groupPages.some((other) => other.id !== page.id && !isDistinct(page.id, other.id))
+    );
     if (pages.length <= 1) {
-      continue; // Skip unique names
+      continue; // Skip unique names (or groups fully resolved by reviewers)
+    }
+    if (groups) {
+      addToGroups(groups, pages.map((page) => page.id));
     }
 
     totalDuplicates += pages.length;
-    console.log(`\n  Processing "${pages[0].properties["клиент"]?.title?.[0]?.plain_text}" (${pages.length} duplicates):`);
+    console.log(`\n  Processing "${propertyToString(pages[0].properties[config.matchProperty])}" (${pages.length} duplicates):`);
 
     for (const page of pages) {
       try {
         // Fetch latest page data to get current tags
-        const currentPage = await fetchNotionPage(page.id);
-        const currentTags = currentPage.properties["Duplicate Flag"]?.multi_select || [];
+        const currentPage = await notion.getPage<NotionPage>(page.id);
 
-        const wasTagged = await updateNotionTags(page.id, currentTags);
+        const wasTagged = await updateNotionTags(
+          page.id,
+          tagProperty,
+          currentPage.properties[config.tagProperty],
+          label,
+        );
         if (wasTagged) {
           tagged++;
         } else {
@@ -342,9 +478,6 @@ async function tagDuplicates(
         if (processed % 50 === 0) {
           console.log(`\n  Progress: ${processed}/${totalDuplicates} pages processed`);
         }
-
-        // Small delay to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY));
       } catch (error: any) {
         console.error(`  ❌ Failed to tag page ${page.id}:`, error.message);
       }
@@ -355,6 +488,194 @@ async function tagDuplicates(
   return { totalDuplicates, tagged, skipped };
 }
 
+/**
+ * Create duplicate groups for historical data
+ *
+ * The primary record of each group is its oldest page (created_time). The
+ * "Duplicate of" relation is written here when configured; the groups are
+ * recorded in the Val's SQLite through its /groups route when
+ * DUPLICATE_CHECKER_URL is set, so the webhook keeps maintaining them.
+ */
+async function createDuplicateGroups(
+  parents: GroupParents,
+  pagesById: Map<string, NotionPage>,
+): Promise<{ groups: number; linked: number }> {
+  const groups = collectGroups(parents).map((pageIds) => {
+    const byAge = [...pageIds].sort((a, b) =>
+      (pagesById.get(a)?.created_time ?? "").localeCompare(pagesById.get(b)?.created_time ?? "")
+    );
+    return { pageIds: byAge, primaryPageId: byAge[0] };
+  });
+  console.log(`🔗 Creating ${groups.length} duplicate groups...`);
+
+  let linked = 0;
+  if (config.relationProperty) {
+    for (const group of groups) {
+      for (const pageId of group.pageIds) {
+        const related = group.pageIds.filter((id) => id !== pageId);
+        if (DRY_RUN) {
+          console.log(`  [DRY RUN] Would link page ${pageId} to ${related.length} page(s)`);
+          continue;
+        }
+
+        try {
+          await notion.updatePageProperties(
+            pageId,
+            buildRelationUpdate(config.relationProperty!, related),
+          );
+          linked++;
+        } catch (error: any) {
+          console.error(`  ❌ Failed to link page ${pageId}:`, error.message);
+        }
+      }
+    }
+  }
+
+  const baseUrl = Deno.env.get("DUPLICATE_CHECKER_URL");
+  if (!baseUrl) {
+    console.log("  DUPLICATE_CHECKER_URL not set: groups are not recorded in SQLite");
+  } else if (DRY_RUN) {
+    console.log(`  [DRY RUN] Would record ${groups.length} groups at ${baseUrl}/groups`);
+  } else {
+    // 50 groups per request keeps each call well inside the Val's timeout
+    for (let i = 0; i < groups.length; i += 50) {
+      const response = await fetchChecker(baseUrl, "/groups", {
+        groups: groups.slice(i, i + 50),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to record groups at ${baseUrl}: ${response.status} ${await response.text()}`,
+        );
+      }
+    }
+    console.log(`  Recorded ${groups.length} groups at ${baseUrl}/groups`);
+  }
+
+  console.log(`✅ Duplicate groups done\n`);
+  return { groups: groups.length, linked };
+}
+
+/**
+ * Read the merge subcommand's flags
+ *
+ * @throws On unknown flags or when neither --group nor --pages is given
+ */
+function parseMergeArgs(
+  args: string[],
+): { groupId?: number; pageIds?: string[]; canonicalPageId?: string; apply: boolean } {
+  const parsed: ReturnType<typeof parseMergeArgs> = { apply: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--group":
+        parsed.groupId = Number(args[++i]);
+        break;
+      case "--pages":
+        parsed.pageIds = (args[++i] ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+        break;
+      case "--canonical":
+        parsed.canonicalPageId = args[++i];
+        break;
+      case "--apply":
+        parsed.apply = true;
+        break;
+      default:
+        throw new Error(`Unknown merge option "${args[i]}"`);
+    }
+  }
+
+  if (parsed.groupId === undefined && parsed.pageIds === undefined) {
+    throw new Error("Usage: merge (--group <id> | --pages <id>,<id>,...) [--canonical <id>] [--apply]");
+  }
+  return parsed;
+}
+
+/**
+ * Merge a duplicate group into its canonical page
+ *
+ * Prints the plan (the same preview as the webhook's POST /merge) and only
+ * writes with --apply: PATCH the canonical page, archive the others, leave a
+ * comment. Archived pages are removed from the index, their group and the
+ * other pages' tags by the webhook or the index builder's reconciliation.
+ */
+async function mergeCommand(args: string[]): Promise<void> {
+  try {
+    const options = parseMergeArgs(args);
+
+    let pageIds = options.pageIds ?? [];
+    if (options.groupId !== undefined) {
+      const baseUrl = Deno.env.get("DUPLICATE_CHECKER_URL");
+      if (!baseUrl) {
+        throw new Error("DUPLICATE_CHECKER_URL must be set to merge by --group");
+      }
+      const response = await fetchChecker(baseUrl, `/groups?groupId=${options.groupId}`);
+      const body = await response.json();
+      if (!response.ok || !body.group) {
+        throw new Error(`Group ${options.groupId} not found at ${baseUrl}`);
+      }
+      pageIds = body.group.members;
+    }
+    pageIds = [...new Set(pageIds)];
+    if (pageIds.length < 2) {
+      throw new Error("A merge needs at least two pages");
+    }
+
+    const pages: NotionPage[] = [];
+    for (const pageId of pageIds) {
+      const page = await notion.getPage<NotionPage>(pageId);
+      if (page.archived || page.in_trash) {
+        throw new Error(`Page ${pageId} is archived`);
+      }
+      pages.push(page);
+    }
+
+    const plan = planMerge(
+      pages,
+      chooseCanonical(pages, options.canonicalPageId),
+      config.mergeRules,
+      [config.tagProperty, ...(config.relationProperty ? [config.relationProperty] : [])],
+    );
+    const comment = formatMergeComment(plan);
+
+    console.log(`🔀 Merge into ${plan.canonicalPageId}`);
+    console.log(`  Archive: ${plan.mergedPageIds.join(", ")}`);
+    for (const change of plan.changes) {
+      console.log(
+        `  ${change.property} (${change.rule}): ${change.before ?? "(empty)"} → ` +
+          `${change.after ?? "(empty)"}`,
+      );
+    }
+    if (plan.changes.length === 0) {
+      console.log("  No properties to copy");
+    }
+
+    if (!options.apply) {
+      console.log("\n⚠️  Preview only - run again with --apply to merge\n");
+      return;
+    }
+
+    if (Object.keys(plan.updates).length > 0) {
+      await notion.updatePageProperties(plan.canonicalPageId, plan.updates);
+    }
+    for (const pageId of plan.mergedPageIds) {
+      await notion.archivePage(pageId);
+      console.log(`  Archived page ${pageId}`);
+    }
+
+    try {
+      await notion.createComment(plan.canonicalPageId, comment);
+    } catch (error: any) {
+      console.error(`  ❌ Merged, but failed to leave a comment:`, error.message);
+    }
+
+    console.log(`\n✅ Merged ${plan.mergedPageIds.length} page(s) into ${plan.canonicalPageId}\n`);
+  } catch (error: any) {
+    console.error("\n❌ Error during merge:");
+    console.error(error.message);
+    Deno.exit(1);
+  }
+}
+
 /**
  * Main backfill function
  */
@@ -379,19 +700,113 @@ async function main(): Promise<void> {
 
   console.log(`📋 Configuration:`);
   console.log(`  Database ID: ${databaseId}`);
+  console.log(`  Match property: ${config.matchProperty}`);
+  console.log(`  Tag: ${config.tagProperty} = "${config.tagLabel}"`);
+  console.log(
+    `  Fuzzy matching: ${
+      config.fuzzyMatching
+        ? `ON (threshold ${config.fuzzyThreshold}, label "${config.possibleDuplicateLabel}")`
+        : "OFF"
+    }`,
+  );
+  console.log(
+    `  Transliteration matching: ${config.transliterationMatching ? "ON" : "OFF"}`,
+  );
+  console.log(
+    `  Match keys: phone=${config.phoneProperty ?? "-"}, email=${
+      config.emailProperty ?? "-"
+    }, tax ID=${config.taxIdProperty ?? "-"}`,
+  );
   console.log(`  Dry run: ${DRY_RUN ? "YES (no changes will be made)" : "NO (will tag pages)"}`);
   console.log(`  Batch size: ${BATCH_SIZE}`);
-  console.log(`  Rate limit delay: ${RATE_LIMIT_DELAY}ms\n`);
 
   try {
+    // Step 0: Learn the tag property type before doing any work
+    const database = await notion.getDatabase<NotionDatabase>(databaseId);
+    const tagProperty = resolveTagProperty(
+      database,
+      config.tagProperty,
+      tagLabels(config),
+    );
+    if (config.relationProperty) {
+      validateRelationProperty(database, config.relationProperty);
+    }
+    console.log(`  Tag property type: ${tagProperty.type}\n`);
+
     // Step 1: Fetch all pages
     const allPages = await fetchAllPages(databaseId);
 
+    /**
+     * Step 1b: Reviewed false positives
+     * 
+     * A page whose tag a reviewer set to "Not Duplicate" counts as distinct
+     * from every page it would be grouped with; recorded pairs cover the
+     * rest (and checkbox tag properties, which cannot hold the label).
+     */
+    const exceptions = await fetchExceptions();
+    const markedDistinct = new Set(
+      allPages
+        .filter((page) =>
+          hasNotDuplicateMark(
+            tagProperty,
+            page.properties[config.tagProperty] as TagPropertyValue | undefined,
+            config,
+          )
+        )
+        .map((page) => page.id),
+    );
+    const isDistinct = (a: string, b: string) =>
+      markedDistinct.has(a) || markedDistinct.has(b) || exceptions.has(pairKey(a, b));
+
     // Step 2: Build duplicate map
     const nameMap = buildDuplicateMap(allPages);
 
     // Step 3: Tag duplicates
-    const { totalDuplicates, tagged, skipped } = await tagDuplicates(nameMap);
+    const groupParents: GroupParents = new Map();
+    const { totalDuplicates, tagged, skipped } = await tagDuplicates(
+      nameMap,
+      tagProperty,
+      config.tagLabel,
+      isDistinct,
+      groupParents,
+    );
+
+    // Step 3b (optional): Tag pages sharing a phone, email or tax ID
+    const keyMatches = config.phoneProperty || config.emailProperty || config.taxIdProperty
+      ? await tagDuplicates(
+        buildMatchKeyMap(allPages),
+        tagProperty,
+        config.tagLabel,
+        isDistinct,
+        groupParents,
+      )
+      : null;
+
+    // Step 3c: Record exact duplicates as groups ("Duplicate of" links)
+    const groupResult = await createDuplicateGroups(
+      groupParents,
+      new Map(allPages.map((page) => [page.id, page])),
+    );
+
+    // Step 4 (optional): Tag Cyrillic/Latin spellings as possible duplicates
+    const transliteration = config.transliterationMatching
+      ? await tagDuplicates(
+        buildTransliterationMap(nameMap),
+        tagProperty,
+        config.possibleDuplicateLabel,
+        isDistinct,
+      )
+      : null;
+
+    // Step 5 (optional): Tag fuzzy matches as possible duplicates
+    const possible = config.fuzzyMatching
+      ? await tagDuplicates(
+        buildPossibleDuplicateMap(nameMap),
+        tagProperty,
+        config.possibleDuplicateLabel,
+        isDistinct,
+      )
+      : null;
 
     // Final summary
     const duration = ((Date.now() - startTime) / 1000 / 60).toFixed(2);
@@ -403,6 +818,22 @@ async function main(): Promise<void> {
     console.log(`Duplicate pages found: ${totalDuplicates}`);
     console.log(`Pages tagged: ${tagged}`);
     console.log(`Pages skipped (already tagged): ${skipped}`);
+    console.log(`Duplicate groups: ${groupResult.groups}`);
+    if (config.relationProperty) {
+      console.log(`Pages linked via "${config.relationProperty}": ${groupResult.linked}`);
+    }
+    if (keyMatches) {
+      console.log(`Match key duplicate pages found: ${keyMatches.totalDuplicates}`);
+      console.log(`Pages tagged from match keys: ${keyMatches.tagged}`);
+    }
+    if (transliteration) {
+      console.log(`Transliteration match pages found: ${transliteration.totalDuplicates}`);
+      console.log(`Pages tagged as transliteration matches: ${transliteration.tagged}`);
+    }
+    if (possible) {
+      console.log(`Possible duplicate pages found: ${possible.totalDuplicates}`);
+      console.log(`Pages tagged as possible duplicates: ${possible.tagged}`);
+    }
     console.log(`Duration: ${duration} minutes`);
     console.log("═══════════════════════════════════════════════════\n");
 
@@ -427,5 +858,9 @@ async function main(): Promise<void> {
 
 // Run main function
 if (import.meta.main) {
-  main();
+  if (Deno.args[0] === "merge") {
+    mergeCommand(Deno.args.slice(1));
+  } else {
+    main();
+  }
 }
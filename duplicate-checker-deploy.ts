@@ -5,174 +5,271 @@
  * It receives notifications from Notion when pages are created/updated,
  * checks for duplicates in the SQLite index, and tags duplicate pages.
  * 
- * Configured for client's Notion database:
+ * Property mapping (match property, tag property, tag label) comes from
+ * shared/config.ts. Defaults match the client's Notion database:
  * - Property name: "клиент" (Russian, instead of "Name")
  * - Tag property: "Duplicate Flag" (instead of "Tags")
  */
 
 import { sqlite } from "https://esm.town/v/std/sqlite";
+import { loadConfig, managedLabels, tagLabels } from "./shared/config.ts";
+import { listDriftReports } from "./shared/drift-reports.ts";
+import {
+  listDistinctPairs,
+  pairsWithin,
+  recordDistinctPairs,
+  removeDistinctPairs,
+} from "./shared/exceptions.ts";
+import { trigrams } from "./shared/fuzzy.ts";
+import {
+  type DuplicateGroup,
+  getGroup,
+  getGroupOf,
+  joinGroup,
+  leaveGroup,
+} from "./shared/groups.ts";
+import { extractMatchKeys, type MatchKey, sameMatchKeys } from "./shared/match-keys.ts";
+import { chooseCanonical, formatMergeComment, planMerge } from "./shared/merge.ts";
+import {
+  classifyIndexedPage,
+  findAllMatches,
+  getIndexedPage,
+  type IndexedPage,
+  labelFor,
+  matchedPageIds,
+  removeFromIndex,
+} from "./shared/matching.ts";
+import { normalizationFingerprint, normalizeName } from "./shared/normalize.ts";
+import { createNotionClient, isNotionApiError, isRetryable } from "./shared/notion-client.ts";
+import {
+  completePageOperations,
+  enqueueTagOperation,
+  listOperations,
+  type OperationStatus,
+  retryDeadOperations,
+  scheduleTagOperations,
+} from "./shared/pending-operations.ts";
+import { type NotionProperties, propertyToString } from "./shared/properties.ts";
+import { applyGroupRelations, validateRelationProperty } from "./shared/relations.ts";
+import { transliterationKey } from "./shared/transliterate.ts";
+import { initializeSchema } from "./shared/schema.ts";
+import { knownTagLabels, recordTagLabels } from "./shared/tag-state.ts";
+import {
+  deliveryKey,
+  findRecentDelivery,
+  listWebhookEvents,
+  outcomeOf,
+  payloadHash,
+  recordWebhookEvent,
+  type WebhookEvent,
+  type WebhookOutcome,
+} from "./shared/webhook-events.ts";
+import {
+  hasWebhookSecret,
+  loadWebhookSecrets,
+  maskSecret,
+  verifyWebhookRequest,
+} from "./shared/webhook-auth.ts";
+import {
+  buildTagState,
+  buildTagUpdate,
+  hasNotDuplicateMark,
+  hasTag,
+  type NotionDatabase,
+  resolveTagProperty,
+  type TagPropertySchema,
+  type TagPropertyValue,
+} from "./shared/tag-property.ts";
+
+const config = loadConfig();
+const webhookSecrets = loadWebhookSecrets();
 
 /**
- * Initialize SQLite database with persistent storage
- * 
- * WHY: Val.town provides persistent SQLite storage across function invocations,
- * allowing us to maintain a searchable index of all names for duplicate detection.
+ * Initialize SQLite tables (shared with the index builder)
  * 
- * COLLATE NOCASE: Enables case-insensitive comparisons at the database level,
- * so "John Smith", "john smith", and "JOHN SMITH" are treated as identical.
- * 
- * UNIQUE constraint on notion_page_id: Ensures idempotent operations - if we
- * receive the same webhook twice, we won't create duplicate index entries.
+ * WHY top-level await: Runs once per cold start, before the first request,
+ * so every handler invocation can assume the tables and columns exist.
  */
-await sqlite.execute(`
-  CREATE TABLE IF NOT EXISTS name_index (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT NOT NULL COLLATE NOCASE,
-    notion_page_id TEXT NOT NULL UNIQUE,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )
-`);
+await initializeSchema();
 
 /**
- * Create B-tree index for O(1) average-case lookups
- * 
- * WHY: Without this index, queries would be O(n) table scans. With 150k+ records,
- * this would make real-time detection too slow (several seconds per lookup).
- * The index enables sub-millisecond lookups at the cost of slightly slower inserts.
+ * Notion API client (retries, rate limiting and timeouts live there)
  */
-await sqlite.execute(`
-  CREATE INDEX IF NOT EXISTS idx_name ON name_index(name)
-`);
-
-// Notion API configuration
-const NOTION_API_BASE = "https://api.notion.com/v1";
-const NOTION_VERSION = "2022-06-28";
+const notion = createNotionClient();
 
+/**
+ * Property names are configurable, so pages are keyed by arbitrary strings.
+ * Values are read through propertyToString() (shared/properties.ts).
+ */
 interface NotionPage {
   id: string;
-  properties: {
-    клиент?: {
-      title: Array<{ plain_text: string }>;
-    };
-    "Duplicate Flag"?: {
-      select: { name: string } | null;
-    };
-  };
+  created_time: string;
+  last_edited_time?: string;
+  parent?: { type: string; database_id?: string };
+  properties: NotionProperties;
+  archived?: boolean;
+  in_trash?: boolean;
+}
+
+/**
+ * Event from a Notion integration webhook subscription
+ * 
+ * Unlike automation payloads, these carry only the entity ID: the page
+ * itself is fetched from the API.
+ */
+interface NotionWebhookEvent {
+  id: string;
+  type: string;
+  entity: { id: string; type: string };
 }
 
 interface WebhookBody {
   id: string;
-  properties: {
-    клиент?: {
-      title: Array<{ plain_text: string }>;
-    };
-  };
+  properties: NotionProperties;
+  archived?: boolean;
+  in_trash?: boolean;
 }
 
 /**
- * Normalize name for consistent comparison
- * 
- * WHY: Users may enter names with extra whitespace or inconsistent casing.
- * Normalization ensures "John Smith", " john smith ", and "JOHN SMITH" all
- * match as duplicates. We chose simple normalization over fuzzy matching
- * (Levenshtein distance) for speed and to minimize false positives.
+ * Resolve the tag property type from the database schema (cached per isolate)
  * 
- * @param name - Raw name from Notion
- * @returns Trimmed, lowercase name for matching
+ * WHY cache the promise: The schema rarely changes, and warm Val.town
+ * invocations reuse module state, so most webhooks skip the extra GET.
+ * A failed lookup is not cached so the next webhook retries it.
  */
-function normalizeName(name: string): string {
-  return name.trim().toLowerCase();
-}
+let tagPropertyPromise: Promise<TagPropertySchema> | null = null;
 
-/**
- * Get Notion API headers
- */
-function getNotionHeaders(): HeadersInit {
-  const token = Deno.env.get("NOTION_TOKEN");
-  if (!token) {
-    throw new Error("NOTION_TOKEN environment variable is not set");
+function getTagProperty(): Promise<TagPropertySchema> {
+  if (!tagPropertyPromise) {
+    const databaseId = Deno.env.get("NOTION_DATABASE_ID");
+    if (!databaseId) {
+      throw new Error("NOTION_DATABASE_ID environment variable is not set");
+    }
+
+    tagPropertyPromise = notion.getDatabase<NotionDatabase>(databaseId)
+      .then((database) => {
+        if (config.relationProperty) {
+          validateRelationProperty(database, config.relationProperty);
+        }
+        return resolveTagProperty(database, config.tagProperty, tagLabels(config));
+      })
+      .catch((error) => {
+        tagPropertyPromise = null;
+        throw error;
+      });
   }
 
-  return {
-    "Authorization": `Bearer ${token}`,
-    "Notion-Version": NOTION_VERSION,
-    "Content-Type": "application/json",
-  };
+  return tagPropertyPromise;
 }
 
 /**
- * Fetch a page from Notion API
+ * Validate the tag (and relation) property once per cold start
+ *
+ * WHY here: A misconfigured TAG_PROPERTY used to show up only as one failed
+ * delivery after another (each answered with 200). Failing the module load
+ * makes every request fail with the reason until the config is fixed.
+ *
+ * WHY not for retryable errors: A Notion outage at cold start says nothing
+ * about the config; the first request resolves the schema again.
  */
-async function fetchNotionPage(pageId: string): Promise<NotionPage> {
-  const response = await fetch(`${NOTION_API_BASE}/pages/${pageId}`, {
-    method: "GET",
-    headers: getNotionHeaders(),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to fetch Notion page ${pageId}: ${response.status} ${errorText}`
-    );
+try {
+  await getTagProperty();
+} catch (error) {
+  if (isNotionApiError(error) && isRetryable(error)) {
+    console.warn("Could not read the database schema at startup, retrying on the first request:", error);
+  } else {
+    throw error;
   }
-
-  return await response.json();
 }
 
 /**
- * Update Duplicate Flag property on a Notion page (SELECT type, not multi-select)
+ * Set a duplicate label on a Notion page's tag property
+ * 
+ * The payload shape (select, multi_select, checkbox or status) follows the
+ * type reported by the database schema.
  * 
  * WHY idempotent check: If the tag is already present, we skip the update.
  * This avoids unnecessary API calls and makes the operation safe to re-run.
  * Important for error recovery and webhook retries.
  * 
+ * WHY never downgrade: A page already marked as an exact duplicate keeps that
+ * label when it also turns up as a fuzzy match for another page.
+ * 
  * @param pageId - Notion page ID to update
- * @param existingTag - Current tag value (null if not set)
+ * @param currentValue - Current value of the tag property (undefined if not set)
+ * @param label - Label to set (exact or possible duplicate)
+ * @returns Label the page carries afterwards
  */
 async function updateNotionTags(
   pageId: string,
-  existingTag: { name: string } | null
-): Promise<void> {
-  // Idempotent check: Skip if already tagged
-  const hasDuplicateTag = existingTag?.name?.toLowerCase() === "duplicate";
+  currentValue: TagPropertyValue | undefined,
+  label: string = config.tagLabel
+): Promise<string> {
+  const tagProperty = await getTagProperty();
 
-  if (hasDuplicateTag) {
-    console.log(`Page ${pageId} already has "Duplicate" tag, skipping update`);
-    return;
+  // Idempotent check: Skip if already tagged (or tagged with the stronger label)
+  if (hasTag(tagProperty, currentValue, label)) {
+    console.log(`Page ${pageId} already has "${label}" tag, skipping update`);
+    return label;
+  }
+  if (label !== config.tagLabel && hasTag(tagProperty, currentValue, config.tagLabel)) {
+    console.log(`Page ${pageId} already has "${config.tagLabel}" tag, skipping update`);
+    return config.tagLabel;
   }
 
-  // Set to "Duplicate" (SELECT type uses single object, not array)
-  const response = await fetch(`${NOTION_API_BASE}/pages/${pageId}`, {
-    method: "PATCH",
-    headers: getNotionHeaders(),
-    body: JSON.stringify({
-      properties: {
-        "Duplicate Flag": {
-          select: { name: "Duplicate" },
-        },
-      },
-    }),
-  });
+  await notion.updatePageProperties(
+    pageId,
+    buildTagUpdate(tagProperty, currentValue, label, [config.notDuplicateLabel])
+  );
+
+  console.log(`Successfully tagged page ${pageId} as "${label}"`);
+  return label;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to update Notion page ${pageId}: ${response.status} ${errorText}`
+/**
+ * Put a page's tag property into an exact state, removing stale labels
+ * 
+ * WHY separate from updateNotionTags: Tagging a match only ever adds a label,
+ * but a re-evaluated page (after a rename) may have become unique or moved
+ * from an exact to a possible duplicate, so its label must be able to go
+ * down as well.
+ * 
+ * @param pageId - Notion page ID to update
+ * @param label - Label the page should carry, or null to clear our labels
+ * @returns true if the page was changed
+ */
+async function syncNotionTag(pageId: string, label: string | null): Promise<boolean> {
+  const tagProperty = await getTagProperty();
+  const page = await notion.getPage<NotionPage>(pageId);
+
+  const update = buildTagState(
+    tagProperty,
+    page.properties[config.tagProperty],
+    label,
+    managedLabels(config)
+  );
+  if (update) {
+    await notion.updatePageProperties(pageId, update);
+    console.log(
+      label
+        ? `Set tag of page ${pageId} to "${label}"`
+        : `Cleared duplicate tag of page ${pageId}`
     );
   }
 
-  console.log(`Successfully tagged page ${pageId} as "Duplicate"`);
+  await retryWithBackoff(() => recordTagLabels([{ pageId, label }]));
+  return update !== null;
 }
 
 /**
- * Retry a function with exponential backoff for rate limit errors
+ * Retry a SQLite call with exponential backoff for rate limit errors
  * 
- * WHY: Notion API has a rate limit of 3 requests/second. When processing
- * multiple duplicates, we may hit this limit. Exponential backoff (1s, 2s, 4s)
- * gives the API time to recover while ensuring we eventually succeed.
+ * WHY: Val.town's SQLite is served over HTTP and rejects bursts with 429.
+ * Exponential backoff (1s, 2s, 4s) gives it time to recover. Notion calls
+ * do not go through here: shared/notion-client.ts retries them by status.
  * 
- * WHY only retry 429: Other errors (auth, network, etc.) likely won't be fixed
- * by retrying, so we fail fast to avoid wasting time and resources.
+ * WHY only retry 429: Other errors (constraint violations, bad SQL) won't be
+ * fixed by retrying, so we fail fast.
  * 
  * @param fn - Async function to execute with retry logic
  * @param maxRetries - Maximum retry attempts (default: 3)
@@ -210,185 +307,1399 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Find all duplicate pages for a given name
+ * Replace a page's stored match keys (idempotent)
+ * 
+ * WHY delete first: An edited phone or email must stop matching under its
+ * old value. Both statements run in one batch so a lookup never sees the
+ * page without keys.
  */
-async function findDuplicatePages(normalizedName: string): Promise<string[]> {
-  const result = await retryWithBackoff(() => 
+async function storeMatchKeys(keys: MatchKey[], pageId: string): Promise<void> {
+  const statements = [
+    {
+      sql: "DELETE FROM match_keys WHERE notion_page_id = ?",
+      args: [pageId],
+    },
+  ];
+
+  if (keys.length > 0) {
+    statements.push({
+      sql: `INSERT OR IGNORE INTO match_keys (key_type, key_value, notion_page_id) VALUES ${
+        keys.map(() => "(?, ?, ?)").join(", ")
+      }`,
+      args: keys.flatMap((key) => [key.type, key.value, pageId]),
+    });
+  }
+
+  await retryWithBackoff(() => sqlite.batch(statements, "write"));
+}
+
+/**
+ * Store a page's name trigrams for future fuzzy lookups
+ */
+async function insertTrigrams(normalizedName: string, pageId: string): Promise<void> {
+  const grams = trigrams(normalizedName);
+
+  await retryWithBackoff(() =>
     sqlite.execute({
-      sql: "SELECT notion_page_id FROM name_index WHERE name = ?",
-      args: [normalizedName]
+      sql: `INSERT OR IGNORE INTO name_trigrams (trigram, notion_page_id) VALUES ${
+        grams.map(() => "(?, ?)").join(", ")
+      }`,
+      args: grams.flatMap((gram) => [gram, pageId])
     })
   );
-
-  // Val.town SQLite returns rows as arrays, not objects
-  return result.rows.map((row: any) => row[0] as string);
 }
 
 /**
- * Insert a new name into the index
- * Multiple pages can have the same name (duplicates are accumulated, not replaced)
+ * Insert a page into the index, or update it if it is already there
+ * 
+ * WHY upsert: Update webhooks arrive for pages we already know. A renamed
+ * page must be found under its new name (and no longer under the old one),
+ * so the row and its trigrams are rewritten instead of skipped.
+ * 
+ * @param previous - What the index held before this webhook (null if new)
  */
-async function insertNameIndex(name: string, pageId: string): Promise<void> {
-  const normalizedName = normalizeName(name);
-  
-  try {
+async function upsertNameIndex(
+  name: string,
+  pageId: string,
+  previous: IndexedPage | null
+): Promise<void> {
+  const normalizedName = normalizeName(name, config);
+
+  if (previous && previous.normalizedName === normalizedName) {
+    // Same name: only refresh what the user typed (case, spacing, ...)
     await retryWithBackoff(() =>
       sqlite.execute({
-        sql: "INSERT INTO name_index (name, notion_page_id) VALUES (?, ?)",
-        args: [normalizedName, pageId]
+        sql: "UPDATE name_index SET raw_name = ? WHERE notion_page_id = ?",
+        args: [name, pageId]
       })
     );
-    console.log(`Indexed new name: "${name}" (page: ${pageId})`);
-  } catch (error: any) {
-    // If this specific page is already indexed, skip it
-    if (error.message?.includes("UNIQUE constraint")) {
-      console.log(`Page ${pageId} already indexed, skipping`);
-    } else {
+    return;
+  }
+
+  if (previous) {
+    await retryWithBackoff(() =>
+      sqlite.batch([
+        {
+          sql: `
+            UPDATE name_index
+            SET name = ?, raw_name = ?, normalized_with = ?, translit_key = ?
+            WHERE notion_page_id = ?
+          `,
+          args: [
+            normalizedName,
+            name,
+            normalizationFingerprint(config),
+            transliterationKey(normalizedName),
+            pageId,
+          ],
+        },
+        {
+          sql: "DELETE FROM name_trigrams WHERE notion_page_id = ?",
+          args: [pageId],
+        },
+      ], "write")
+    );
+    console.log(
+      `Re-indexed renamed page ${pageId}: "${previous.normalizedName}" → "${normalizedName}"`
+    );
+  } else {
+    try {
+      await retryWithBackoff(() =>
+        sqlite.execute({
+          sql: `
+            INSERT INTO name_index
+              (name, notion_page_id, raw_name, normalized_with, translit_key)
+            VALUES (?, ?, ?, ?, ?)
+          `,
+          args: [
+            normalizedName,
+            pageId,
+            name,
+            normalizationFingerprint(config),
+            transliterationKey(normalizedName),
+          ]
+        })
+      );
+      console.log(`Indexed new name: "${name}" (page: ${pageId})`);
+    } catch (error: any) {
+      // A concurrent webhook for the same page got here first
+      if (error.message?.includes("UNIQUE constraint")) {
+        console.log(`Page ${pageId} already indexed, skipping`);
+        return;
+      }
       throw error;
     }
   }
+
+  if (config.fuzzyMatching) {
+    await insertTrigrams(normalizedName, pageId);
+  }
 }
 
 /**
- * Main HTTP handler for webhook
+ * Notion writes planned while handling a request, made after the response
+ * 
+ * WHY plan instead of write: Classifying pages and updating groups only
+ * touches SQLite and is quick; the Notion GETs and PATCHes that follow
+ * (a relation per group member, a tag per re-evaluated page) are what
+ * could run into the automation's timeout on a large group. The handlers
+ * collect them here and hand them to scheduleWrites.
  */
-export default async function handler(req: Request): Promise<Response> {
+interface PlannedWrites {
+  /** Labels to add to matching pages (a stronger label is kept) */
+  tags: Array<{ pageId: string; label: string }>;
+  /** Re-evaluated pages: their tag is put into exactly this state */
+  retags: Array<{ pageId: string; label: string | null }>;
+  /** Group changes, in order, whose "Duplicate of" links are rewritten */
+  groups: DuplicateGroup[];
+  /** Pages whose links are cleared (unless a later group includes them) */
+  ungrouped: string[];
+}
+
+function noWrites(): PlannedWrites {
+  return { tags: [], retags: [], groups: [], ungrouped: [] };
+}
+
+/**
+ * Re-classify already-indexed pages and plan their tag changes
+ * 
+ * WHY: After a rename the old group may have shrunk to a single page, which
+ * then still carries a "Duplicate" tag. Each page is classified against the
+ * current index, leaves its duplicate group if it is no longer an exact
+ * duplicate, and gets its tag set (or cleared) to match after the response.
+ * 
+ * WHY try-catch per page: One failure must not stop the rest of the group
+ * from being corrected.
+ * 
+ * @param writes - Receives the tag and relation changes
+ */
+async function reevaluatePages(pageIds: string[], writes: PlannedWrites): Promise<void> {
+  for (const pageId of pageIds) {
+    try {
+      const label = await classifyIndexedPage(pageId, config);
+      writes.retags.push({ pageId, label });
+
+      // No longer an exact duplicate: it cannot stay in a duplicate group
+      if (label !== config.tagLabel) {
+        const split = await leaveGroup(pageId, config);
+        writes.groups.push(...split.groups);
+        writes.ungrouped.push(...split.ungrouped);
+      }
+    } catch (error) {
+      console.error(`Failed to re-evaluate page ${pageId}:`, error);
+      await queueFailedTag(pageId, null, error);
+    }
+  }
+}
+
+/**
+ * Queue a failed tag update for the index builder to retry
+ * 
+ * WHY swallow queue errors: The page was already logged as failed; a
+ * failing queue write must not abort tagging of the remaining pages.
+ */
+async function queueFailedTag(
+  pageId: string,
+  label: string | null,
+  error: unknown
+): Promise<void> {
   try {
-    // Only accept POST requests
-    if (req.method !== "POST") {
-      return new Response(
-        JSON.stringify({ error: "Method not allowed" }),
-        { status: 405, headers: { "Content-Type": "application/json" } }
-      );
+    await enqueueTagOperation(pageId, label, (error as Error)?.message ?? String(error));
+    console.log(`Queued page ${pageId} for a tag retry`);
+  } catch (queueError) {
+    console.error(`Failed to queue page ${pageId} for a tag retry:`, queueError);
+  }
+}
+
+/**
+ * Keep the page's duplicate group in step with its exact matches
+ * 
+ * A changed page (renamed, new keys, newly marked "Not Duplicate") first
+ * leaves its old group, which may split; it then joins (or merges) the
+ * group of its current exact duplicates.
+ * 
+ * @param writes - Receives the "Duplicate of" links to rewrite
+ * @returns The page's group, or null if it has no exact duplicates
+ */
+async function updateGroups(
+  pageId: string,
+  otherDuplicates: string[],
+  changed: boolean,
+  writes: PlannedWrites
+): Promise<DuplicateGroup | null> {
+  const split = changed
+    ? await leaveGroup(pageId, config)
+    : { groups: [], ungrouped: [] };
+
+  if (otherDuplicates.length === 0) {
+    writes.groups.push(...split.groups);
+    writes.ungrouped.push(...split.ungrouped);
+    return null;
+  }
+
+  const group = await joinGroup([pageId, ...otherDuplicates]);
+  writes.groups.push(
+    // Split parts that were merged straight back are covered by `group`
+    ...split.groups.filter((part) => !part.members.every((id) => group.members.includes(id))),
+    group
+  );
+  writes.ungrouped.push(...split.ungrouped.filter((id) => !group.members.includes(id)));
+
+  console.log(
+    `Page ${pageId} is in duplicate group ${group.groupId} ` +
+      `(${group.members.length} pages, primary ${group.primaryPageId})`
+  );
+  return group;
+}
+
+/**
+ * Remove an archived or deleted page from the index and re-check its group
+ * 
+ * WHY collect the group first: Once the row is gone we can no longer tell
+ * which pages it matched.
+ * 
+ * @param writes - Receives the tag and relation changes of the former group
+ * @returns Number of pages re-evaluated, or null if the page was not indexed
+ */
+async function removePage(
+  pageId: string,
+  writes: PlannedWrites
+): Promise<number | null> {
+  const previous = await getIndexedPage(pageId);
+  if (!previous) {
+    console.log(`Archived page ${pageId} is not indexed, nothing to remove`);
+    return null;
+  }
+
+  await getTagProperty();
+  const formerGroup = matchedPageIds(
+    await findAllMatches(pageId, previous.normalizedName, previous.keys, config)
+  );
+
+  await retryWithBackoff(() => removeFromIndex(pageId));
+  console.log(`Removed archived page ${pageId} ("${previous.normalizedName}") from index`);
+
+  const split = await leaveGroup(pageId, config);
+  writes.groups.push(...split.groups);
+  writes.ungrouped.push(...split.ungrouped.filter((id) => id !== pageId));
+
+  await reevaluatePages(formerGroup, writes);
+  return formerGroup.length;
+}
+
+/**
+ * Pages tagged at once after the response
+ * 
+ * WHY 3: Matches the Notion client's 3 requests/second, so workers rarely
+ * wait on the rate limiter yet a large group still finishes in seconds.
+ */
+const TAG_CONCURRENCY = 3;
+
+/**
+ * Seconds the index builder leaves scheduled writes alone (see scheduleWrites)
+ */
+const BACKGROUND_TAG_GRACE_SECONDS = 300;
+
+/**
+ * Make the planned Notion writes after the response
+ * 
+ * WHY after the response: A popular name can have dozens of matches, and a
+ * GET and a PATCH for each (plus a relation PATCH per group member), one
+ * after the other, could take tens of seconds and run into Val.town's
+ * execution limit. The pages are scheduled in pending_operations first,
+ * then written in the background while the handler replies. Whatever the
+ * isolate does not finish (or fails) is retried by the index builder once
+ * the grace period is over; it re-classifies the page and rewrites both
+ * its tag and its links.
+ * 
+ * WHY check known labels first: A member that already carries the label
+ * (name_index.tag_label, shared/tag-state.ts) needs neither the GET nor
+ * the PATCH. Re-evaluated pages are always written, since their label may
+ * have to go down.
+ * 
+ * @returns How many pages were scheduled and how many were already tagged
+ */
+async function scheduleWrites(
+  writes: PlannedWrites
+): Promise<{ scheduled: number; alreadyTagged: number }> {
+  // A re-evaluated page's exact state wins over a label added for it
+  const jobs = new Map<string, { pageId: string; label: string | null; exact: boolean }>();
+  for (const { pageId, label } of writes.tags) {
+    jobs.set(pageId, { pageId, label, exact: false });
+  }
+  for (const { pageId, label } of writes.retags) {
+    jobs.set(pageId, { pageId, label, exact: true });
+  }
+
+  const added = [...jobs.values()].filter((job) => !job.exact);
+  const known = await retryWithBackoff(() => knownTagLabels(added.map((job) => job.pageId)));
+  const alreadyTagged = added.filter(({ pageId, label }) => {
+    const current = known.get(pageId);
+    return current === label || current === config.tagLabel;
+  });
+  for (const { pageId } of alreadyTagged) {
+    jobs.delete(pageId);
+  }
+
+  const relinked = config.relationProperty
+    ? [...writes.groups.flatMap((group) => group.members), ...writes.ungrouped]
+    : [];
+  const scheduled = [
+    ...jobs.values(),
+    ...relinked
+      .filter((pageId) => !jobs.has(pageId))
+      .map((pageId) => ({ pageId, label: null })),
+  ].filter((job, index, all) => all.findIndex((other) => other.pageId === job.pageId) === index);
+
+  await retryWithBackoff(() => scheduleTagOperations(scheduled, BACKGROUND_TAG_GRACE_SECONDS));
+  if (scheduled.length > 0) {
+    console.log(
+      `Writing ${scheduled.length} page(s) in the background ` +
+        `(${alreadyTagged.length} already tagged)`
+    );
+    // Not awaited: the response goes out while this runs
+    writeInBackground([...jobs.values()], writes).catch((error) => {
+      console.error("Background writes failed:", error);
+    });
+  }
+
+  return { scheduled: scheduled.length, alreadyTagged: alreadyTagged.length };
+}
+
+/**
+ * Write tags with bounded parallelism, then the relations, then clear the
+ * scheduled operations of every page that was fully written
+ * 
+ * WHY try-catch per page: If one page fails to update (deleted, permissions
+ * changed, etc.), we still want to write the others. The failed page keeps
+ * its operation, now with the error, for the index builder to retry.
+ */
+async function writeInBackground(
+  jobs: Array<{ pageId: string; label: string | null; exact: boolean }>,
+  writes: PlannedWrites
+): Promise<void> {
+  const tagged: Array<{ pageId: string; label: string }> = [];
+  const written: string[] = [];
+  const failed = new Set<string>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const { pageId, label, exact } = jobs[next++];
+      try {
+        if (exact) {
+          await syncNotionTag(pageId, label);
+        } else {
+          const existingPage = await notion.getPage<NotionPage>(pageId);
+          tagged.push({
+            pageId,
+            label: await updateNotionTags(
+              pageId,
+              existingPage.properties[config.tagProperty],
+              label ?? config.tagLabel
+            ),
+          });
+        }
+        written.push(pageId);
+      } catch (error) {
+        console.error(`Failed to tag page ${pageId}:`, error);
+        failed.add(pageId);
+        await queueFailedTag(pageId, label, error);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(TAG_CONCURRENCY, jobs.length) }, worker)
+  );
+
+  written.push(
+    ...await applyGroupRelations(
+      notion,
+      config.relationProperty,
+      writes.groups,
+      writes.ungrouped,
+      async (pageId, error) => {
+        failed.add(pageId);
+        await queueFailedTag(pageId, null, error);
+      }
+    )
+  );
+
+  await retryWithBackoff(() =>
+    completePageOperations([...new Set(written)].filter((pageId) => !failed.has(pageId)))
+  );
+  await retryWithBackoff(() => recordTagLabels(tagged));
+}
+
+/**
+ * JSON response helper for the API routes
+ */
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * "Not a duplicate" exceptions API
+ * 
+ * - GET    /exceptions[?pageId=...]      list recorded pairs
+ * - POST   /exceptions {"pageIds": [...]} mark the pages as mutually distinct
+ * - DELETE /exceptions {"pageIds": [...]} withdraw those exceptions
+ * 
+ * POST and DELETE re-evaluate the pages, so tags are removed (or restored)
+ * right away. Unlike the webhook, this route is called by people and
+ * scripts, so bad input gets a 4xx.
+ */
+async function handleExceptions(req: Request): Promise<Response> {
+  if (req.method === "GET") {
+    const pageId = new URL(req.url).searchParams.get("pageId") ?? undefined;
+    const pairs = await listDistinctPairs(pageId);
+    return jsonResponse({ success: true, count: pairs.length, pairs });
+  }
+
+  if (req.method !== "POST" && req.method !== "DELETE") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ success: false, error: "Invalid JSON in request body" }, 400);
+  }
+
+  const pageIds = body?.pageIds;
+  if (
+    !Array.isArray(pageIds) ||
+    !pageIds.every((id) => typeof id === "string" && id !== "") ||
+    new Set(pageIds).size < 2
+  ) {
+    return jsonResponse(
+      { success: false, error: "'pageIds' must list at least two distinct page IDs" },
+      400
+    );
+  }
+
+  await getTagProperty();
+  const pairs = pairsWithin(pageIds);
+  const changedPairs = req.method === "POST"
+    ? await recordDistinctPairs(pairs, "api")
+    : await removeDistinctPairs(pairs);
+  const writes = noWrites();
+  await reevaluatePages(pageIds, writes);
+  const tagging = await scheduleWrites(writes);
+
+  console.log(
+    `${req.method === "POST" ? "Recorded" : "Removed"} ${changedPairs} exception(s) ` +
+      `for ${pageIds.length} pages`
+  );
+
+  return jsonResponse({
+    success: true,
+    pairs: pairs.length,
+    [req.method === "POST" ? "recorded" : "removed"]: changedPairs,
+    tagsScheduled: tagging.scheduled,
+  });
+}
+
+/**
+ * Duplicate groups API
+ * 
+ * - GET  /groups?pageId=...  or  ?groupId=...   one group with its members
+ * - POST /groups {"groups": [{"pageIds": [...], "primaryPageId": "..."}]}
+ *   records groups found elsewhere (the local backfill), merging them with
+ *   existing groups. Relations are left to the caller.
+ */
+async function handleGroups(req: Request): Promise<Response> {
+  if (req.method === "GET") {
+    const params = new URL(req.url).searchParams;
+    const pageId = params.get("pageId");
+    const groupId = Number(params.get("groupId"));
+
+    const group = pageId
+      ? await getGroupOf(pageId)
+      : Number.isInteger(groupId) && groupId > 0
+      ? await getGroup(groupId)
+      : undefined;
+    if (group === undefined) {
+      return jsonResponse({ success: false, error: "Pass 'pageId' or 'groupId'" }, 400);
+    }
+    return jsonResponse({ success: true, group });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ success: false, error: "Invalid JSON in request body" }, 400);
+  }
+
+  const groups = body?.groups;
+  const valid = Array.isArray(groups) && groups.every((group: any) =>
+    Array.isArray(group?.pageIds) &&
+    group.pageIds.every((id: unknown) => typeof id === "string" && id !== "") &&
+    new Set(group.pageIds).size >= 2 &&
+    (group.primaryPageId === undefined || group.pageIds.includes(group.primaryPageId))
+  );
+  if (!valid) {
+    return jsonResponse(
+      {
+        success: false,
+        error: "'groups' must be a list of {pageIds: [at least two IDs], primaryPageId?}",
+      },
+      400
+    );
+  }
+
+  const recorded: DuplicateGroup[] = [];
+  for (const group of groups) {
+    recorded.push(await joinGroup(group.pageIds, group.primaryPageId));
+  }
+
+  console.log(`Recorded ${recorded.length} duplicate group(s) via API`);
+  return jsonResponse({
+    success: true,
+    groups: recorded.map((group) => ({
+      groupId: group.groupId,
+      primaryPageId: group.primaryPageId,
+      size: group.members.length,
+    })),
+  });
+}
+
+/**
+ * Tag retry queue API
+ * 
+ * - GET  /operations[?status=pending|dead]   queued tag updates
+ * - POST /operations/retry {"ids": [...]}    move dead operations back to
+ *   the queue (all of them without "ids"); the index builder retries them
+ *   on its next run
+ */
+async function handleOperations(req: Request, pathname: string): Promise<Response> {
+  if (pathname === "/operations" && req.method === "GET") {
+    const status = new URL(req.url).searchParams.get("status");
+    if (status !== null && status !== "pending" && status !== "dead") {
+      return jsonResponse({ success: false, error: "'status' must be pending or dead" }, 400);
+    }
+    const operations = await listOperations((status ?? undefined) as OperationStatus | undefined);
+    return jsonResponse({ success: true, count: operations.length, operations });
+  }
+
+  if (pathname !== "/operations/retry" || req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  let body: any = {};
+  const text = await req.text();
+  if (text.trim() !== "") {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body" }, 400);
+    }
+  }
+
+  const ids = body?.ids;
+  if (
+    ids !== undefined &&
+    (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id)))
+  ) {
+    return jsonResponse({ success: false, error: "'ids' must be a non-empty list of operation IDs" }, 400);
+  }
+
+  const requeued = await retryDeadOperations(ids);
+  console.log(`Re-queued ${requeued} dead tag operation(s)`);
+  return jsonResponse({ success: true, requeued });
+}
+
+/**
+ * Merge API - fold a duplicate group into one canonical page
+ * 
+ * - POST /merge {"groupId": 12} or {"pageIds": [...]}
+ *   optional "canonicalPageId" (default: oldest by created_time) and
+ *   "dryRun" (default: true)
+ * 
+ * WHY dry run by default: Archiving pages is the one destructive thing this
+ * tool does, so a caller has to ask for it explicitly ("dryRun": false)
+ * after looking at the preview.
+ * 
+ * Order matters: the canonical page is updated first, so a failure leaves
+ * every page in place. The merged pages are then archived (restorable from
+ * Notion's trash) and removed from the index and their group right away,
+ * instead of waiting for the archive webhook.
+ */
+async function handleMerge(req: Request): Promise<Response> {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ success: false, error: "Invalid JSON in request body" }, 400);
+  }
+
+  let pageIds: string[];
+  if (body?.groupId !== undefined) {
+    const group = Number.isInteger(body.groupId) ? await getGroup(body.groupId) : null;
+    if (!group) {
+      return jsonResponse({ success: false, error: `Group ${body.groupId} not found` }, 404);
+    }
+    pageIds = group.members;
+  } else if (
+    Array.isArray(body?.pageIds) &&
+    body.pageIds.every((id: unknown) => typeof id === "string" && id !== "")
+  ) {
+    pageIds = [...new Set<string>(body.pageIds)];
+  } else {
+    return jsonResponse({ success: false, error: "Pass 'groupId' or 'pageIds'" }, 400);
+  }
+  if (pageIds.length < 2) {
+    return jsonResponse({ success: false, error: "A merge needs at least two pages" }, 400);
+  }
+
+  const pages: NotionPage[] = [];
+  for (const pageId of pageIds) {
+    const page = await notion.getPage<NotionPage>(pageId);
+    if (page.archived || page.in_trash) {
+      return jsonResponse({ success: false, error: `Page ${pageId} is archived` }, 409);
     }
+    pages.push(page);
+  }
+
+  let canonical: NotionPage;
+  try {
+    canonical = chooseCanonical(pages, body.canonicalPageId);
+  } catch (error) {
+    return jsonResponse({ success: false, error: (error as Error).message }, 400);
+  }
+
+  const plan = planMerge(
+    pages,
+    canonical,
+    config.mergeRules,
+    [config.tagProperty, ...(config.relationProperty ? [config.relationProperty] : [])]
+  );
+  const comment = formatMergeComment(plan);
+
+  if (body.dryRun !== false) {
+    return jsonResponse({ success: true, dryRun: true, ...plan, comment });
+  }
+
+  await getTagProperty();
+  if (Object.keys(plan.updates).length > 0) {
+    await notion.updatePageProperties(plan.canonicalPageId, plan.updates);
+  }
+
+  const writes = noWrites();
+  for (const pageId of plan.mergedPageIds) {
+    await notion.archivePage(pageId);
+    await removePage(pageId, writes);
+  }
+
+  // Archived pages can no longer be edited; leave them out of the writes
+  const merged = new Set(plan.mergedPageIds);
+  await scheduleWrites({
+    tags: [],
+    retags: writes.retags.filter(({ pageId }) => !merged.has(pageId)),
+    groups: writes.groups.map((group) => ({
+      ...group,
+      members: group.members.filter((pageId) => !merged.has(pageId)),
+    })),
+    ungrouped: writes.ungrouped.filter((pageId) => !merged.has(pageId)),
+  });
+
+  let commented = true;
+  try {
+    await notion.createComment(plan.canonicalPageId, comment);
+  } catch (error) {
+    // The merge itself is done; a missing comment capability must not hide that
+    commented = false;
+    console.error(`Failed to comment on merged page ${plan.canonicalPageId}:`, error);
+  }
+
+  console.log(
+    `Merged ${plan.mergedPageIds.length} page(s) into ${plan.canonicalPageId} ` +
+      `(${plan.changes.length} propert${plan.changes.length === 1 ? "y" : "ies"} changed)`
+  );
+
+  return jsonResponse({ success: true, dryRun: false, ...plan, comment, commented });
+}
+
+/**
+ * Event types handled from integration webhook subscriptions
+ * 
+ * page.deleted needs no fetch (the page may already be gone for good); the
+ * others are answered by reading the page's current state.
+ */
+const NATIVE_PAGE_EVENTS = [
+  "page.created",
+  "page.properties_updated",
+  "page.undeleted",
+  "page.deleted",
+];
+
+/**
+ * Whether a body is an integration webhook event (not an automation payload)
+ */
+function isNativeEvent(body: any): body is NotionWebhookEvent {
+  return typeof body?.type === "string" && typeof body?.entity?.id === "string";
+}
+
+/**
+ * Compare Notion IDs regardless of dashes and case
+ */
+function sameNotionId(a: string, b: string): boolean {
+  return a.replace(/-/g, "").toLowerCase() === b.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Store the token from a subscription's verification request
+ * 
+ * WHY only while none is stored: The handshake cannot be authenticated, so
+ * anyone can post one. Keeping only the first token means the row the
+ * operator copies into Notion cannot be replaced by someone else's. To
+ * verify a new subscription, delete the stored row first.
+ * 
+ * @returns false if a token was already stored (the new one is dropped)
+ */
+async function storeVerificationToken(token: string): Promise<boolean> {
+  const result = await sqlite.execute({
+    sql: `
+      INSERT INTO webhook_verification_tokens (token)
+      SELECT ? WHERE NOT EXISTS (SELECT 1 FROM webhook_verification_tokens)
+    `,
+    args: [token],
+  });
+  if ((result.rowsAffected ?? 0) === 0) {
+    console.warn(
+      `Ignored Notion webhook verification token ${maskSecret(token)}: a token is already stored. ` +
+        "To verify a new subscription, run: DELETE FROM webhook_verification_tokens"
+    );
+    return false;
+  }
+
+  console.log(
+    `Received Notion webhook verification token ${maskSecret(token)}. ` +
+      "Read it with: SELECT token FROM webhook_verification_tokens"
+  );
+  return true;
+}
+
+/**
+ * Turn an integration webhook event into the page to process
+ * 
+ * WHY check the parent: Subscriptions cover the whole workspace, so events
+ * for pages in other databases arrive here too and must be ignored.
+ * 
+ * @returns The page (in the automation payload shape), or a response to
+ *   send right away when there is nothing to process
+ */
+async function resolveNativeEvent(
+  event: NotionWebhookEvent
+): Promise<NotionPage | Response> {
+  if (!NATIVE_PAGE_EVENTS.includes(event.type) || event.entity.type !== "page") {
+    console.log(`Skipping: Notion event ${event.type} is not handled`);
+    return jsonResponse({ success: true, skipped: true, reason: `Event ${event.type} not handled` });
+  }
 
-    // Parse webhook body
-    let body: any;
+  if (event.type === "page.deleted") {
+    // removePage() ignores pages that are not in our index
+    return { id: event.entity.id, created_time: "", properties: {}, in_trash: true };
+  }
+
+  const page = await notion.getPage<NotionPage>(event.entity.id);
+  const databaseId = Deno.env.get("NOTION_DATABASE_ID");
+  if (!databaseId || !page.parent?.database_id || !sameNotionId(page.parent.database_id, databaseId)) {
+    console.log(`Skipping: Page ${page.id} from ${event.type} is not in the monitored database`);
+    return jsonResponse({ success: true, skipped: true, reason: "Page is not in the monitored database" });
+  }
+
+  console.log(`Handling Notion event ${event.type} for page ${page.id}`);
+  return page;
+}
+
+/**
+ * Process one webhook delivery (automation payload or integration event)
+ * 
+ * @throws On unexpected errors; the handler turns them into a 200 response
+ */
+async function processWebhook(rawBody: string): Promise<Response> {
+  // Parse webhook body
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch (error) {
+    console.warn("Skipping: Invalid JSON in request body");
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        skipped: true,
+        reason: "Invalid JSON in request body" 
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  // Integration webhook events carry only an ID; automation payloads
+  // carry the page itself (wrapped in a data object)
+  let pageData = body.data || body;
+  let fetched = false;
+  if (isNativeEvent(body)) {
+    const resolved = await resolveNativeEvent(body);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+    pageData = resolved;
+    fetched = body.type !== "page.deleted";
+  }
+
+  /**
+   * Validate required fields
+   * 
+   * CRITICAL: We return 200 (not 400) even on validation errors to prevent
+   * Notion from disabling the automation. If we return 4xx/5xx, Notion will
+   * eventually turn off the webhook after repeated failures. By returning 200
+   * with success: false, we acknowledge receipt while logging the issue.
+   */
+  if (!pageData.id) {
+    console.warn("Skipping: Missing 'id' field in webhook body");
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        skipped: true,
+        reason: "Missing 'id' field in webhook body" 
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  /**
+   * Minimal payloads: fetch the page when the payload lacks what we match on
+   * 
+   * WHY also for match key properties: An automation that sends only the
+   * changed property would otherwise look like a page whose phone and
+   * email were cleared, and its keys would be dropped from the index.
+   */
+  const payloadIncomplete = !propertyToString(pageData.properties?.[config.matchProperty]) ||
+    [config.phoneProperty, config.emailProperty, config.taxIdProperty].some(
+      (property) => property !== null && pageData.properties?.[property] === undefined
+    );
+  if (!fetched && payloadIncomplete && pageData.archived !== true && pageData.in_trash !== true) {
     try {
-      body = await req.json();
+      pageData = await notion.getPage<NotionPage>(pageData.id);
+      fetched = true;
+      console.log(`Fetched page ${pageData.id}: payload lacked its properties`);
     } catch (error) {
-      console.warn("Skipping: Invalid JSON in request body");
+      console.warn(`Skipping: Could not fetch page ${pageData.id}:`, error);
       return new Response(
-        JSON.stringify({ 
-          success: false, 
+        JSON.stringify({
+          success: false,
           skipped: true,
-          reason: "Invalid JSON in request body" 
+          reason: `Payload lacks '${config.matchProperty}' and the page could not be fetched`,
         }),
         { status: 200, headers: { "Content-Type": "application/json" } }
       );
     }
+  }
+
+  /**
+   * Archived or trashed pages leave the index
+   * 
+   * WHY before the name check: A deleted page must stop matching new pages
+   * whatever its properties say, and the pages it was grouped with must be
+   * re-checked so a lone survivor loses its tag.
+   */
+  if (pageData.archived === true || pageData.in_trash === true) {
+    const writes = noWrites();
+    const reevaluatedCount = await removePage(pageData.id, writes);
+    const tagging = await scheduleWrites(writes);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        fetched,
+        removed: reevaluatedCount !== null,
+        reevaluatedCount: reevaluatedCount ?? 0,
+        tagsScheduled: tagging.scheduled,
+        message: reevaluatedCount !== null
+          ? "Archived page removed from index"
+          : "Archived page was not indexed",
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const name = propertyToString(pageData.properties?.[config.matchProperty]);
+  if (!name) {
+    console.warn(
+      `Skipping: Missing or invalid '${config.matchProperty}' property for page`,
+      pageData.id,
+    );
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        skipped: true,
+        fetched,
+        reason: `Missing or invalid '${config.matchProperty}' property` 
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const pageId = pageData.id;
+  const normalizedName = normalizeName(name, config);
+
+  console.log(`Processing page: ${pageId} with name: "${name}"`);
+
+  /**
+   * Resolve the tag property before touching the index
+   * 
+   * WHY: A missing or unsupported tag property should fail loudly on the
+   * first webhook, not silently on the first duplicate weeks later.
+   */
+  const tagProperty = await getTagProperty();
+
+  /**
+   * Treat every webhook as an upsert
+   * 
+   * WHY read the previous state first: If the page was renamed (or its
+   * phone/email changed), the pages it used to match must be re-checked
+   * once the index holds the new values - otherwise they keep a stale tag.
+   */
+  const previous = await getIndexedPage(pageId);
+  const matchKeys = extractMatchKeys(pageData.properties, config);
+  const renamed = previous !== null && previous.normalizedName !== normalizedName;
+  const keysChanged = previous !== null && !sameMatchKeys(previous.keys, matchKeys);
+  const formerGroup = renamed || keysChanged
+    ? matchedPageIds(
+      await findAllMatches(pageId, previous.normalizedName, previous.keys, config)
+    )
+    : [];
+
+  if (renamed) {
+    console.log(
+      `Page ${pageId} renamed from "${previous.normalizedName}" to "${normalizedName}"`
+    );
+  }
+
+  /**
+   * A reviewer set the tag to "Not Duplicate": record the page as distinct
+   * from everything it currently matches, before matching, so the
+   * exception applies to this very webhook
+   */
+  const newlyDistinct = hasNotDuplicateMark(
+      tagProperty,
+      pageData.properties?.[config.tagProperty],
+      config
+    )
+    ? matchedPageIds(
+      await findAllMatches(pageId, normalizedName, matchKeys, config, false)
+    )
+    : [];
+  const exceptionsRecorded = await recordDistinctPairs(
+    newlyDistinct.map((id): [string, string] => [pageId, id]),
+    "notion"
+  );
+  if (exceptionsRecorded > 0) {
+    console.log(
+      `Page ${pageId} marked "${config.notDuplicateLabel}": recorded ${exceptionsRecorded} exception(s)`
+    );
+  }
+
+  /**
+   * Index first, then look up (write-then-read closes the concurrent-create race)
+   * 
+   * WHY: Two pages with the same name created at the same moment (CSV
+   * imports) used to both look up "no duplicates" and then both insert,
+   * so neither was tagged. With every webhook writing its row before its
+   * lookup, whichever lookup runs last is guaranteed to see the other
+   * page, and tags both. The same holds for match keys. It also means
+   * re-evaluation below sees the page under its new name.
+   */
+  await upsertNameIndex(name, pageId, previous);
+  await storeMatchKeys(matchKeys, pageId);
+
+  const matches = await findAllMatches(pageId, normalizedName, matchKeys, config);
+  const {
+    nameDuplicates,
+    keyMatches,
+    otherDuplicates,
+    transliterationPageIds,
+    fuzzyMatches,
+  } = matches;
+  const keyMatchTypes = [...new Set(keyMatches.map((match) => match.keyType))];
+  const fuzzyPageIds = fuzzyMatches.map((match) => match.pageId);
+
+  const possiblePageIds = [...transliterationPageIds, ...fuzzyPageIds];
+  const matchReasons = [
+    ...(nameDuplicates.length > 0 ? ["exact"] : []),
+    ...keyMatchTypes,
+    ...(transliterationPageIds.length > 0 ? ["transliteration"] : []),
+    ...(fuzzyPageIds.length > 0 ? ["fuzzy"] : []),
+  ];
+
+  /**
+   * Former group members that are not exact duplicates of the new name
+   * 
+   * WHY not just tag them: A former exact duplicate that is now only a
+   * possible one (or no match at all) needs its label lowered, which the
+   * additive tagging below never does.
+   */
+  const reevaluate = [...new Set([...formerGroup, ...newlyDistinct])].filter(
+    (id) => !otherDuplicates.includes(id)
+  );
+
+  // Duplicate group (exact matches only); its "Duplicate of" links are
+  // written after the response with the other pages' tags
+  const writes = noWrites();
+  const group = await updateGroups(
+    pageId,
+    otherDuplicates,
+    renamed || keysChanged || exceptionsRecorded > 0,
+    writes
+  );
+
+  if (otherDuplicates.length > 0 || possiblePageIds.length > 0) {
+    if (nameDuplicates.length > 0) {
+      console.log(
+        `Found ${nameDuplicates.length} duplicate(s) for name: "${name}"`
+      );
+    }
+    if (keyMatches.length > 0) {
+      console.log(
+        `Found ${keyMatches.length} match(es) on ${keyMatchTypes.join(", ")} for page ${pageId}`
+      );
+    }
+    if (transliterationPageIds.length > 0) {
+      console.log(
+        `Found ${transliterationPageIds.length} transliteration match(es) for name: "${name}"`
+      );
+    }
+    if (fuzzyMatches.length > 0) {
+      console.log(
+        `Found ${fuzzyMatches.length} possible duplicate(s) for name: "${name}" ` +
+          `(best similarity ${fuzzyMatches[0].similarity.toFixed(2)})`
+      );
+    }
+
+    // Tag the page itself (exact matches win over lossy ones); an updated
+    // page may carry a stronger label from its former group
+    await syncNotionTag(pageId, labelFor(matches, config));
 
-    // Handle Notion automation webhook format (wrapped in data object)
-    const pageData = body.data || body;
+    writes.tags.push(
+      ...otherDuplicates.map((id) => ({ pageId: id, label: config.tagLabel })),
+      ...possiblePageIds
+        .filter((id) => !reevaluate.includes(id))
+        .map((id) => ({ pageId: id, label: config.possibleDuplicateLabel }))
+    );
+    await reevaluatePages(reevaluate, writes);
+    const tagging = await scheduleWrites(writes);
 
+    return new Response(
+      JSON.stringify({
+        success: true,
+        fetched,
+        duplicate: otherDuplicates.length > 0,
+        duplicateCount: otherDuplicates.length,
+        matchKeyCount: keyMatches.length,
+        transliterationMatchCount: transliterationPageIds.length,
+        possibleDuplicateCount: fuzzyPageIds.length,
+        matchReasons,
+        groupId: group?.groupId ?? null,
+        primaryPageId: group?.primaryPageId ?? null,
+        renamed,
+        exceptionsRecorded,
+        reevaluatedCount: reevaluate.length,
+        tagsScheduled: tagging.scheduled,
+        alreadyTagged: tagging.alreadyTagged,
+        message: possiblePageIds.length === 0
+          ? `Tagged ${otherDuplicates.length + 1} pages as duplicates`
+          : `Tagged ${otherDuplicates.length + possiblePageIds.length + 1} pages ` +
+            `(${otherDuplicates.length} duplicate(s), ${possiblePageIds.length} possible duplicate(s))`,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } else {
     /**
-     * Validate required fields
-     * 
-     * CRITICAL: We return 200 (not 400) even on validation errors to prevent
-     * Notion from disabling the automation. If we return 4xx/5xx, Notion will
-     * eventually turn off the webhook after repeated failures. By returning 200
-     * with success: false, we acknowledge receipt while logging the issue.
+     * No matches. A changed page may still carry a tag from its former
+     * group, so clear it; a new or unchanged page has nothing to clear.
      */
-    if (!pageData.id) {
-      console.warn("Skipping: Missing 'id' field in webhook body");
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          skipped: true,
-          reason: "Missing 'id' field in webhook body" 
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
+    if (renamed || keysChanged) {
+      await syncNotionTag(pageId, null);
     }
+    await reevaluatePages(reevaluate, writes);
+    const tagging = await scheduleWrites(writes);
 
-    if (!pageData.properties?.["клиент"]?.title?.[0]?.plain_text) {
-      console.warn("Skipping: Missing or invalid 'клиент' property for page", pageData.id);
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          skipped: true,
-          reason: "Missing or invalid 'клиент' property" 
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
+    return new Response(
+      JSON.stringify({
+        success: true,
+        fetched,
+        duplicate: false,
+        renamed,
+        exceptionsRecorded,
+        reevaluatedCount: reevaluate.length,
+        tagsScheduled: tagging.scheduled,
+        message: previous ? "Updated page is unique" : "New unique name indexed",
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
+
+/**
+ * Log a delivery to webhook_events, replaying recent redeliveries
+ * 
+ * A redelivery is recognised by its delivery key (shared/webhook-events.ts):
+ * the event ID, or the page ID and edit time; never the raw body.
+ * 
+ * WHY replay: Notion redelivers automation webhooks it considers lost. The
+ * first delivery already tagged the pages, so the stored response is sent
+ * again without any Notion or index calls. Failed deliveries are never
+ * replayed, so a redelivery gets a real second attempt.
+ * 
+ * WHY ignore logging failures: The log is for people; it must never turn a
+ * processed webhook into an error.
+ */
+async function handleDelivery(rawBody: string): Promise<Response> {
+  const started = Date.now();
+  const hash = await payloadHash(rawBody);
+  let key: string | null = null;
+  let pageId: string | null = null;
+  try {
+    const body = JSON.parse(rawBody);
+    key = await deliveryKey(body);
+    pageId = body?.entity?.id ?? (body?.data ?? body)?.id ?? null;
+  } catch {
+    // Invalid JSON: processWebhook reports it
+  }
+
+  const record = async (event: Parameters<typeof recordWebhookEvent>[0]) => {
+    try {
+      await recordWebhookEvent(event);
+    } catch (error) {
+      console.error("Failed to record webhook event:", error);
     }
+  };
 
-    const pageId = pageData.id;
-    const name = pageData.properties["клиент"].title[0].plain_text;
-    const normalizedName = normalizeName(name);
+  const earlier = key !== null
+    ? await findRecentDelivery(key, config.redeliveryWindowSeconds)
+    : null;
+  if (earlier) {
+    console.log(
+      `Redelivery of event ${earlier.id} (page ${earlier.pageId ?? "unknown"}): replaying stored result`
+    );
+    const replayed = { ...JSON.parse(earlier.response ?? "{}"), redelivery: true };
+    await record({
+      deliveryKey: key,
+      payloadHash: hash,
+      pageId,
+      outcome: earlier.outcome,
+      replayed: true,
+      durationMs: Date.now() - started,
+      response: earlier.response,
+    });
+    return jsonResponse(replayed);
+  }
 
-    console.log(`Processing new page: ${pageId} with name: "${name}"`);
+  try {
+    const response = await processWebhook(rawBody);
+    const text = await response.clone().text();
+    let outcome: WebhookOutcome = "skipped";
+    try {
+      outcome = outcomeOf(JSON.parse(text));
+    } catch {
+      // Non-JSON response: keep "skipped"
+    }
+    await record({
+      deliveryKey: key,
+      payloadHash: hash,
+      pageId,
+      outcome,
+      durationMs: Date.now() - started,
+      response: text,
+    });
+    return response;
+  } catch (error) {
+    await record({
+      deliveryKey: key,
+      payloadHash: hash,
+      pageId,
+      outcome: "error",
+      durationMs: Date.now() - started,
+      error: (error as Error).message,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Webhook delivery log API
+ * 
+ * - GET /events[?pageId=...][&outcome=duplicate|unique|removed|skipped|error][&limit=50]
+ *   newest first, at most 500
+ */
+async function handleEvents(req: Request): Promise<Response> {
+  if (req.method !== "GET") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const params = new URL(req.url).searchParams;
+  let events: WebhookEvent[];
+  try {
+    events = await listWebhookEvents({
+      pageId: params.get("pageId") ?? undefined,
+      outcome: params.get("outcome") ?? undefined,
+      limit: Number(params.get("limit")) || undefined,
+    });
+  } catch (error) {
+    return jsonResponse({ success: false, error: (error as Error).message }, 400);
+  }
+
+  return jsonResponse({
+    success: true,
+    count: events.length,
+    events: events.map((event) => ({
+      ...event,
+      response: event.response ? JSON.parse(event.response) : null,
+    })),
+  });
+}
+
+/**
+ * Drift reports of the index builder's reconciliation passes
+ * 
+ * - GET /drift[?limit=10] newest first (the running pass included), at most 100
+ */
+async function handleDrift(req: Request): Promise<Response> {
+  if (req.method !== "GET") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const limit = Number(new URL(req.url).searchParams.get("limit")) || undefined;
+  const reports = await listDriftReports(limit);
+  return jsonResponse({ success: true, count: reports.length, reports });
+}
+
+/**
+ * Whether a request to an API route changes data
+ * 
+ * These routes need a configured webhook secret (see the handler). Reads
+ * and the webhook route itself do not.
+ */
+function changesData(method: string, pathname: string): boolean {
+  if (pathname === "/merge" || pathname === "/operations/retry") {
+    return true;
+  }
+  return (pathname === "/exceptions" || pathname === "/groups") && method !== "GET";
+}
+
+/**
+ * Main HTTP handler for webhook
+ */
+export default async function handler(req: Request): Promise<Response> {
+  try {
+    const { pathname } = new URL(req.url);
 
-    // Check for duplicates
-    const duplicatePageIds = await findDuplicatePages(normalizedName);
-    
     /**
-     * Filter out the current page from duplicate list
+     * Authenticate before anything else (all routes, when secrets are set)
+     * 
+     * WHY 401 here despite the "always 200" rule below: that rule keeps a
+     * legitimate automation alive through bad payloads. A request without a
+     * valid secret is not one of ours - or an automation missing its header,
+     * which should fail loudly rather than be silently ignored.
      * 
-     * WHY: If the webhook is triggered multiple times for the same page
-     * (Notion sometimes sends duplicate webhooks), the page might already
-     * be in the index. We don't want to tag it as its own duplicate.
+     * WHY clone: The signature covers the raw bytes, and the routes below
+     * still need to read the body themselves.
      */
-    const otherDuplicates = duplicatePageIds.filter(id => id !== pageId);
-
-    if (otherDuplicates.length > 0) {
-      console.log(
-        `Found ${otherDuplicates.length} duplicate(s) for name: "${name}"`
-      );
+    const rawBody = await req.clone().text();
 
-      // Fetch current page to get existing tag (SELECT type, not multi_select)
-      const currentPage = await fetchNotionPage(pageId);
-      const currentTag = currentPage.properties["Duplicate Flag"]?.select || null;
-
-      // Tag the new page
-      await updateNotionTags(pageId, currentTag);
-
-      /**
-       * Tag all existing duplicate pages
-       * 
-       * WHY try-catch per page: If one page fails to update (deleted, permissions
-       * changed, etc.), we still want to tag the others. This ensures partial
-       * success rather than all-or-nothing failure.
-       */
-      for (const duplicatePageId of otherDuplicates) {
-        try {
-          const duplicatePage = await fetchNotionPage(duplicatePageId);
-          const duplicateTag = duplicatePage.properties["Duplicate Flag"]?.select || null;
-          await updateNotionTags(duplicatePageId, duplicateTag);
-        } catch (error) {
-          console.error(
-            `Failed to tag duplicate page ${duplicatePageId}:`,
-            error
+    /**
+     * Subscription handshake: Notion posts {"verification_token": ...} once
+     * 
+     * WHY before authentication: The token is the signing secret, so this
+     * request cannot be signed yet. It is only accepted until a signing
+     * secret is configured, and only the first token is stored (see
+     * storeVerificationToken); storing it changes nothing else.
+     */
+    if (pathname === "/" && req.method === "POST" && !webhookSecrets.signingSecret) {
+      let handshake: any = null;
+      try {
+        handshake = JSON.parse(rawBody);
+      } catch {
+        // Not JSON: left to the checks below
+      }
+      if (typeof handshake?.verification_token === "string" && !handshake.type) {
+        if (!(await storeVerificationToken(handshake.verification_token))) {
+          return jsonResponse(
+            { success: false, error: "A verification token is already stored" },
+            409
           );
-          // Continue with other duplicates even if one fails
         }
+        return jsonResponse({ success: true, verification: true });
       }
+    }
 
-      // Still insert the new page into index (for future duplicate detection)
-      await insertNameIndex(name, pageId);
+    const auth = await verifyWebhookRequest(req.headers, rawBody, webhookSecrets);
+    if (!auth.ok) {
+      console.warn(
+        `Rejected ${req.method} ${pathname} from ` +
+          `${req.headers.get("x-forwarded-for") ?? "unknown address"}: ${auth.reason}`
+      );
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
 
-      return new Response(
-        JSON.stringify({
-          success: true,
-          duplicate: true,
-          duplicateCount: otherDuplicates.length,
-          message: `Tagged ${otherDuplicates.length + 1} pages as duplicates`,
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
+    /**
+     * Without a secret, the check above lets every request through so that
+     * existing automations keep working. Routes that change data (merging
+     * even archives pages) are refused instead of being open to anyone
+     * with the URL.
+     */
+    if (changesData(req.method, pathname) && !hasWebhookSecret(webhookSecrets)) {
+      console.warn(`Refused ${req.method} ${pathname}: no webhook secret is configured`);
+      return jsonResponse(
+        {
+          success: false,
+          error: "Set WEBHOOK_SHARED_SECRET or WEBHOOK_SIGNING_SECRET to use this route",
+        },
+        403
       );
-    } else {
-      // No duplicate found, insert into index
-      await insertNameIndex(name, pageId);
+    }
 
+    if (pathname === "/exceptions") {
+      return await handleExceptions(req);
+    }
+    if (pathname === "/groups") {
+      return await handleGroups(req);
+    }
+    if (pathname === "/merge") {
+      return await handleMerge(req);
+    }
+    if (pathname === "/events") {
+      return await handleEvents(req);
+    }
+    if (pathname === "/drift") {
+      return await handleDrift(req);
+    }
+    if (pathname === "/operations" || pathname === "/operations/retry") {
+      return await handleOperations(req, pathname);
+    }
+
+    // Only accept POST requests
+    if (req.method !== "POST") {
       return new Response(
-        JSON.stringify({
-          success: true,
-          duplicate: false,
-          message: "New unique name indexed",
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { "Content-Type": "application/json" } }
       );
     }
+
+    return await handleDelivery(rawBody);
   } catch (error) {
     console.error("Error processing webhook:", error);
     /**
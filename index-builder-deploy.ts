@@ -1,21 +1,107 @@
 /**
  * Val.town Index Builder - Populates SQLite from Notion (Client Deployment)
  * 
- * This script runs on Val.town after the local backfill completes.
- * It fetches all pages from Notion and populates the SQLite index.
+ * This script runs on Val.town in 45-second slices. It fetches all pages
+ * from Notion, populates the SQLite index and tags the duplicates it finds
+ * along the way (see tagBatchDuplicates), so the local backfill is no
+ * longer needed. Set BUILD_TAGGING=false to only build the index (e.g.
+ * when the local backfill has already tagged the database).
  * 
- * Configured for client's Notion database:
+ * Property mapping comes from shared/config.ts. Default match property:
  * - Property name: "клиент" (Russian, instead of "Name")
  * 
- * NO duplicate detection or tagging - just reads from Notion and writes to SQLite.
- * This makes it fast enough to complete within Val.town's timeout limits.
+ * Tags are written at most as fast as the shared Notion client allows
+ * (3 req/s); tags a run has no time left for are queued and written by
+ * retryPendingTags on the following runs.
+ * 
+ * Once the index is complete, each run first syncs the pages edited since
+ * the previous run (see syncEditedPages), then spends its remaining time
+ * reconciling the index with Notion: missing pages are added, stale names
+ * and keys fixed, and archived or deleted pages removed, with a drift
+ * report per pass (see reconcileIndex). Every run also retries tag updates
+ * the webhook failed to make (see retryPendingTags), which is where the
+ * pages reconciliation touched get re-tagged.
  * 
  * Can be run as:
  * - Scheduled Val (runs every 15 minutes until complete)
  * - HTTP Val (click "Run" manually multiple times)
+ * 
+ * As an HTTP Val it also serves a control API (see handleControl): build
+ * status, reset, and a rebuild into shadow tables that are swapped in when
+ * complete, so the webhook never sees a half-built index.
  */
 
-import { sqlite } from "https://esm.town/v/std/sqlite";
+import { type InStatement, sqlite } from "https://esm.town/v/std/sqlite";
+import { loadConfig, managedLabels, tagLabels } from "./shared/config.ts";
+import { trigrams } from "./shared/fuzzy.ts";
+import {
+  currentDriftReport,
+  type DriftReport,
+  recordDrift,
+  saveDriftReport,
+  startDriftReport,
+  summarizeDrift,
+} from "./shared/drift-reports.ts";
+import { recordDistinctPairs } from "./shared/exceptions.ts";
+import {
+  type DuplicateGroup,
+  getGroup,
+  getGroupOf,
+  joinGroup,
+  leaveGroup,
+} from "./shared/groups.ts";
+import { extractMatchKeys, type MatchKey, sameMatchKeys } from "./shared/match-keys.ts";
+import {
+  classifyIndexedPage,
+  findAllMatches,
+  getIndexedPage,
+  getIndexedPages,
+  labelFor,
+  matchedPageIds,
+  removeFromIndex,
+} from "./shared/matching.ts";
+import { normalizationFingerprint, normalizeName } from "./shared/normalize.ts";
+import { createNotionClient, isNotionApiError } from "./shared/notion-client.ts";
+import {
+  completeOperation,
+  dueOperations,
+  enqueueTagOperation,
+  failOperation,
+  scheduleRegroupStatement,
+  scheduleTagOperations,
+} from "./shared/pending-operations.ts";
+import { type NotionProperties, propertyToString } from "./shared/properties.ts";
+import { applyGroupRelations, buildRelationState } from "./shared/relations.ts";
+import { transliterationKey } from "./shared/transliterate.ts";
+import {
+  hasWebhookSecret,
+  loadWebhookSecrets,
+  verifyWebhookRequest,
+} from "./shared/webhook-auth.ts";
+import {
+  addMissingColumns,
+  createShadowIndexTables,
+  dropShadowIndexTables,
+  type IndexTables,
+  initializeSchema,
+  LIVE_INDEX_TABLES,
+  SHADOW_INDEX_TABLES,
+  shadowSwapStatements,
+} from "./shared/schema.ts";
+import { knownTagLabels, recordTagLabels } from "./shared/tag-state.ts";
+import {
+  buildTagState,
+  buildTagUpdate,
+  hasNotDuplicateMark,
+  hasTag,
+  type NotionDatabase,
+  resolveTagProperty,
+  type TagPropertySchema,
+  type TagPropertyValue,
+} from "./shared/tag-property.ts";
+
+const config = loadConfig();
+const notion = createNotionClient();
 
 /**
  * Configuration
@@ -28,17 +114,19 @@ import { sqlite } from "https://esm.town/v/std/sqlite";
  * script resumes automatically on next run via cursor-based pagination.
  */
 const BATCH_SIZE = 100;
-const NOTION_API_BASE = "https://api.notion.com/v1";
-const NOTION_VERSION = "2022-06-28";
 const MAX_RUNTIME_MS = 45_000; // 45 seconds (15s buffer before Val.town's 60s limit)
+const TRIGRAM_CHUNK_SIZE = 50; // name_index rows per trigram INSERT statement
+const RENORMALIZE_CHUNK_SIZE = 200; // name_index rows per re-normalization batch
+const CHECK_CHUNK_SIZE = 25; // name_index rows (or queued operations) read per query
+const SYNC_OVERLAP_MS = 2 * 60_000; // re-read edits this far before the previous sync
 
 interface NotionPage {
   id: string;
-  properties: {
-    клиент?: {
-      title: Array<{ plain_text: string }>;
-    };
-  };
+  last_edited_time?: string;
+  parent?: { type: string; database_id?: string };
+  properties: NotionProperties;
+  archived?: boolean;
+  in_trash?: boolean;
 }
 
 interface NotionQueryResponse {
@@ -51,33 +139,64 @@ interface Progress {
   last_cursor: string | null;
   total_indexed: number;
   completed: boolean;
+  /** When the first build run started (SQLite datetime, UTC) */
+  started_at: string;
+  last_run_at: string | null;
+  /** Index generation the live tables hold (raised by each rebuild) */
+  generation: number;
+  /** Pages read from Notion by this build, indexed or already present */
+  pages_read: number;
+  /** Pages the build is expected to read (null if unknown, see estimateRemaining) */
+  expected_total: number | null;
+  /** Cursor of a batch indexed but not yet tagged (see tagInterruptedBatch) */
+  untagged_cursor: string | null;
+  /** Totals over all build runs */
+  tagging: BuildTagStats;
 }
 
 /**
- * Normalize name for comparison (trim and lowercase)
+ * A rebuild into the shadow tables, while one is in progress (see
+ * buildShadowIndex)
  */
-function normalizeName(name: string): string {
-  return name.trim().toLowerCase();
+interface Rebuild {
+  generation: number;
+  cursor: string | null;
+  pagesRead: number;
+  totalIndexed: number;
+  /** Live row count when the rebuild started */
+  expectedTotal: number;
+  startedAt: string;
+  lastRunAt: string | null;
 }
 
 /**
- * Get Notion API headers
+ * Duplicate work done while building (see tagBatchDuplicates)
  */
-function getNotionHeaders(): HeadersInit {
-  const token = Deno.env.get("NOTION_TOKEN");
-  if (!token) {
-    throw new Error("NOTION_TOKEN environment variable is not set");
-  }
-
-  return {
-    "Authorization": `Bearer ${token}`,
-    "Notion-Version": NOTION_VERSION,
-    "Content-Type": "application/json",
-  };
+interface BuildTagStats {
+  /** Pages found to have a duplicate (each page counted once, by itself) */
+  duplicatesFound: number;
+  /** Pages tagged in Notion, or found already carrying the label */
+  pagesTagged: number;
+  /** Tags left to retryPendingTags (deadline reached, or the update failed) */
+  tagsQueued: number;
 }
 
 /**
- * Retry a function with exponential backoff
+ * Columns added to index_builder_progress after the first deployment
+ */
+const PROGRESS_MIGRATIONS: Array<{ column: string; definition: string }> = [
+  { column: "duplicates_found", definition: "INTEGER DEFAULT 0" },
+  { column: "pages_tagged", definition: "INTEGER DEFAULT 0" },
+  { column: "tags_queued", definition: "INTEGER DEFAULT 0" },
+  { column: "generation", definition: "INTEGER DEFAULT 1" },
+  { column: "pages_read", definition: "INTEGER DEFAULT 0" },
+  { column: "expected_total", definition: "INTEGER" },
+  { column: "untagged_cursor", definition: "TEXT" },
+];
+
+/**
+ * Retry a SQLite call with exponential backoff (Val.town's SQLite answers
+ * bursts with 429; Notion calls retry inside shared/notion-client.ts)
  */
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
@@ -124,20 +243,8 @@ async function retryWithBackoff<T>(
  * to read/update progress without WHERE clauses or risk of multiple rows.
  */
 async function initializeTables(): Promise<void> {
-  // Create name_index table (identical schema to webhook handler for compatibility)
-  await sqlite.execute(`
-    CREATE TABLE IF NOT EXISTS name_index (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL COLLATE NOCASE,
-      notion_page_id TEXT NOT NULL UNIQUE,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create index for O(1) lookups (essential for real-time performance)
-  await sqlite.execute(`
-    CREATE INDEX IF NOT EXISTS idx_name ON name_index(name)
-  `);
+  // name_index and related tables (shared with the webhook handler)
+  await initializeSchema();
 
   /**
    * Progress tracking table for resumable execution
@@ -156,6 +263,66 @@ async function initializeTables(): Promise<void> {
       completed BOOLEAN DEFAULT FALSE
     )
   `);
+  await addMissingColumns("index_builder_progress", PROGRESS_MIGRATIONS);
+
+  await initializeReconcileTable();
+
+  /**
+   * High-water mark for the incremental sync (see syncEditedPages)
+   * 
+   * high_water is the last_edited_time filter of the window being read,
+   * next_high_water the one the next window will use once this one is done.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS sync_progress (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      high_water TEXT,
+      next_high_water TEXT,
+      cursor TEXT,
+      last_synced_at DATETIME
+    )
+  `);
+
+  /**
+   * The rebuild in progress, if any (see buildShadowIndex)
+   * 
+   * The row exists only while a rebuild runs; the swap deletes it.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS index_rebuild (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      generation INTEGER NOT NULL,
+      cursor TEXT,
+      pages_read INTEGER DEFAULT 0,
+      total_indexed INTEGER DEFAULT 0,
+      expected_total INTEGER DEFAULT 0,
+      started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_run_at DATETIME
+    )
+  `);
+}
+
+/**
+ * Cursor for the reconciliation pass in progress
+ * 
+ * WHY a separate table: Reconciliation walks the database over many runs,
+ * independently of the build's cursor in index_builder_progress. phase is
+ * "scan" (walking Notion with cursor) or "verify" (walking name_index by
+ * row id for rows the scan did not reach).
+ */
+async function initializeReconcileTable(): Promise<void> {
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS reconcile_progress (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      phase TEXT NOT NULL DEFAULT 'scan',
+      cursor TEXT,
+      last_checked_id INTEGER DEFAULT 0
+    )
+  `);
+
+  await sqlite.execute(
+    "INSERT OR IGNORE INTO reconcile_progress (id, phase) VALUES (1, 'scan')",
+  );
 }
 
 /**
@@ -164,7 +331,12 @@ async function initializeTables(): Promise<void> {
 async function getProgress(): Promise<Progress> {
   const result = await retryWithBackoff(() =>
     sqlite.execute({
-      sql: "SELECT last_cursor, total_indexed, completed FROM index_builder_progress WHERE id = 1",
+      sql: `
+        SELECT last_cursor, total_indexed, completed, started_at,
+               duplicates_found, pages_tagged, tags_queued,
+               last_run_at, generation, pages_read, expected_total, untagged_cursor
+        FROM index_builder_progress WHERE id = 1
+      `,
       args: [],
     })
   );
@@ -182,6 +354,13 @@ async function getProgress(): Promise<Progress> {
       last_cursor: null,
       total_indexed: 0,
       completed: false,
+      started_at: new Date().toISOString().replace("T", " ").slice(0, 19),
+      last_run_at: null,
+      generation: 1,
+      pages_read: 0,
+      expected_total: null,
+      untagged_cursor: null,
+      tagging: { duplicatesFound: 0, pagesTagged: 0, tagsQueued: 0 },
     };
   }
 
@@ -190,6 +369,17 @@ async function getProgress(): Promise<Progress> {
     last_cursor: row[0] as string | null,
     total_indexed: row[1] as number,
     completed: row[2] as boolean,
+    started_at: row[3] as string,
+    last_run_at: row[7] as string | null,
+    generation: Number(row[8] ?? 1),
+    pages_read: Number(row[9] ?? 0),
+    expected_total: row[10] === null || row[10] === undefined ? null : Number(row[10]),
+    untagged_cursor: (row[11] ?? null) as string | null,
+    tagging: {
+      duplicatesFound: Number(row[4] ?? 0),
+      pagesTagged: Number(row[5] ?? 0),
+      tagsQueued: Number(row[6] ?? 0),
+    },
   };
 }
 
@@ -220,52 +410,94 @@ async function updateProgress(data: {
   );
 }
 
+/**
+ * Put a page's tag property into the state its classification calls for
+ *
+ * The label is recorded in name_index.tag_label, so the webhook can skip
+ * the page when it is matched again (shared/tag-state.ts). The "Duplicate
+ * of" links (if configured) are brought in line with the page's group in
+ * the same PATCH, since a queued page may be one whose links failed.
+ *
+ * @returns true if the page was changed
+ */
+async function syncNotionTag(
+  pageId: string,
+  label: string | null,
+  tagProperty: TagPropertySchema,
+): Promise<boolean> {
+  const page = await notion.getPage<NotionPage>(pageId);
+  const tagUpdate = buildTagState(
+    tagProperty,
+    page.properties[config.tagProperty],
+    label,
+    managedLabels(config),
+  );
+
+  let relationUpdate: Record<string, unknown> | null = null;
+  if (config.relationProperty) {
+    const group = await retryWithBackoff(() => getGroupOf(pageId));
+    relationUpdate = buildRelationState(
+      config.relationProperty,
+      page.properties[config.relationProperty],
+      group ? group.members.filter((id) => id !== pageId) : [],
+    );
+  }
+
+  const update = tagUpdate || relationUpdate
+    ? { ...tagUpdate, ...relationUpdate }
+    : null;
+  if (update) {
+    await notion.updatePageProperties(pageId, update);
+  }
+
+  await retryWithBackoff(() => recordTagLabels([{ pageId, label }]));
+  return update !== null;
+}
+
 /**
  * Query Notion database with pagination
+ *
+ * @param query - Optional filter and sorts, passed to Notion as they are
  */
 async function queryNotionDatabase(
   databaseId: string,
   startCursor: string | null,
   pageSize: number,
+  query: { filter?: unknown; sorts?: unknown[] } = {},
 ): Promise<NotionQueryResponse> {
   const body: any = {
     page_size: pageSize,
+    ...query,
   };
 
   if (startCursor) {
     body.start_cursor = startCursor;
   }
 
-  const response = await fetch(
-    `${NOTION_API_BASE}/databases/${databaseId}/query`,
-    {
-      method: "POST",
-      headers: getNotionHeaders(),
-      body: JSON.stringify(body),
-    },
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to query Notion database: ${response.status} ${errorText}`,
-    );
-  }
-
-  return await response.json();
+  return await notion.queryDatabase<NotionQueryResponse>(databaseId, body);
 }
 
 /**
  * Insert a page into the index
  */
 async function insertIntoIndex(name: string, pageId: string): Promise<boolean> {
-  const normalizedName = normalizeName(name);
+  const normalizedName = normalizeName(name, config);
 
   return retryWithBackoff(async () => {
     try {
       await sqlite.execute({
-        sql: "INSERT INTO name_index (name, notion_page_id) VALUES (?, ?)",
-        args: [normalizedName, pageId],
+        sql: `
+          INSERT INTO name_index
+            (name, notion_page_id, raw_name, normalized_with, translit_key)
+          VALUES (?, ?, ?, ?, ?)
+        `,
+        args: [
+          normalizedName,
+          pageId,
+          name,
+          normalizationFingerprint(config),
+          transliterationKey(normalizedName),
+        ],
       });
       return true; // Successfully inserted
     } catch (error: any) {
@@ -280,145 +512,1677 @@ async function insertIntoIndex(name: string, pageId: string): Promise<boolean> {
 }
 
 /**
- * Count existing rows in the name_index table
+ * Store trigrams for a set of indexed names in one statement
  */
-async function getExistingIndexCount(): Promise<number> {
-  const result = await retryWithBackoff(() =>
-    sqlite.execute({ sql: "SELECT COUNT(*) FROM name_index", args: [] })
+async function insertTrigrams(
+  rows: Array<{ name: string; pageId: string }>,
+): Promise<void> {
+  const pairs = rows.flatMap((row) =>
+    trigrams(row.name).map((gram) => [gram, row.pageId])
+  );
+  if (pairs.length === 0) {
+    return;
+  }
+
+  await retryWithBackoff(() =>
+    sqlite.execute({
+      sql: `INSERT OR IGNORE INTO name_trigrams (trigram, notion_page_id) VALUES ${
+        pairs.map(() => "(?, ?)").join(", ")
+      }`,
+      args: pairs.flat(),
+    })
   );
-  return Number(result.rows[0][0] || 0);
 }
 
 /**
- * Process a batch of pages: index them in SQLite
+ * Record a page's match keys (phone, email, tax ID)
+ *
+ * INSERT OR IGNORE keeps re-runs idempotent and lets keys be added for pages
+ * that were indexed before a key property was configured.
  */
-async function processBatch(pages: NotionPage[]): Promise<number> {
-  let indexed = 0;
+async function insertMatchKeys(keys: MatchKey[], pageId: string): Promise<void> {
+  if (keys.length === 0) {
+    return;
+  }
 
-  for (const page of pages) {
-    const name = page.properties["клиент"]?.title?.[0]?.plain_text;
-    if (!name) {
-      console.log(`  Skipping page ${page.id} - no клиент property`);
-      continue;
-    }
+  await retryWithBackoff(() =>
+    sqlite.execute({
+      sql: `INSERT OR IGNORE INTO match_keys (key_type, key_value, notion_page_id) VALUES ${
+        keys.map(() => "(?, ?, ?)").join(", ")
+      }`,
+      args: keys.flatMap((key) => [key.type, key.value, pageId]),
+    })
+  );
+}
+
+/**
+ * Back-fill trigrams for rows indexed before fuzzy matching was enabled
+ *
+ * WHY here: The webhook only writes trigrams for new pages, so switching
+ * FUZZY_MATCHING on would leave the existing 150k names invisible to fuzzy
+ * lookups. This runs on every index builder run (even after completion)
+ * until no row is missing, and stops at the given deadline.
+ *
+ * @returns Number of name_index rows that received trigrams
+ */
+async function indexMissingTrigrams(deadline: number): Promise<number> {
+  let total = 0;
+
+  while (Date.now() < deadline) {
+    const result = await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: `
+          SELECT n.name, n.notion_page_id
+          FROM name_index n
+          WHERE NOT EXISTS (
+            SELECT 1 FROM name_trigrams t WHERE t.notion_page_id = n.notion_page_id
+          )
+          LIMIT ?
+        `,
+        args: [TRIGRAM_CHUNK_SIZE],
+      })
+    );
 
-    const wasInserted = await insertIntoIndex(name, page.id);
-    if (wasInserted) {
-      indexed++;
+    if (result.rows.length === 0) {
+      break;
     }
+
+    await insertTrigrams(
+      result.rows.map((row: any) => ({
+        name: row[0] as string,
+        pageId: row[1] as string,
+      })),
+    );
+    total += result.rows.length;
   }
 
-  return indexed;
+  return total;
 }
 
 /**
- * Main scheduled/HTTP function
+ * Re-normalize rows produced by an older normalization pipeline
+ *
+ * WHY: Changing the pipeline (new version or STRIP_LEGAL_FORMS toggled)
+ * changes the matching key, so old rows would never match new webhooks.
+ * Rows whose normalized_with differs from the current fingerprint get a new
+ * name and transliteration key, computed from raw_name (or from the old key for rows indexed before
+ * raw_name existed). Their trigrams are dropped so the fuzzy back-fill
+ * rebuilds them from the new key. Stops at the given deadline and resumes
+ * on the next run.
+ *
+ * WHY queue the rows whose key changed: A new key can create (or break)
+ * exact matches that no webhook will report. Those pages are queued in
+ * pending_operations with the rows' rewrite, and retryPendingTags rebuilds
+ * their groups and tags.
+ *
+ * @returns Number of rows re-normalized
  */
-export default async function indexBuilder(): Promise<Response> {
-  const startTime = Date.now();
-  const runId = new Date().toISOString();
-  const responseHeaders = { "Cache-Control": "no-store" };
-  console.log("=== Index Builder Run Started ===");
-  console.log(`Time: ${runId}`);
-  console.log(`Batch size (requested): ${BATCH_SIZE} (Notion returns up to 100)`);
+async function renormalizeIndex(deadline: number): Promise<number> {
+  const fingerprint = normalizationFingerprint(config);
+  let total = 0;
 
-  try {
-    // 1. Initialize tables
-    await initializeTables();
+  while (Date.now() < deadline) {
+    const result = await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: `
+          SELECT id, notion_page_id, COALESCE(raw_name, name), name
+          FROM name_index
+          WHERE normalized_with IS NULL OR normalized_with != ?
+          LIMIT ?
+        `,
+        args: [fingerprint, RENORMALIZE_CHUNK_SIZE],
+      })
+    );
 
-    /**
-     * 2. Check progress and sync with pre-existing index rows
-     * 
-     * WHY: If the webhook handler has already indexed some pages (from real-time
-     * detection), we want to account for them in our total. This prevents
-     * showing misleading progress (e.g., "0 indexed" when 100 already exist).
-     */
-    const progress = await getProgress();
-    if (!progress.completed && progress.total_indexed === 0) {
-      const existingCount = await getExistingIndexCount();
-      if (existingCount > 0) {
-        await updateProgress({
-          last_cursor: progress.last_cursor,
-          total_indexed: existingCount,
-          completed: progress.completed,
-        });
-        progress.total_indexed = existingCount;
-      }
+    if (result.rows.length === 0) {
+      break;
     }
 
-    // 3. Check if already completed
-    if (progress.completed) {
-      console.log("✅ Index building already completed!");
-      console.log(`Total indexed: ${progress.total_indexed}`);
-      return new Response(
-        `Index building already completed (run ${runId}). Total indexed: ${progress.total_indexed}`,
-        { status: 200, headers: responseHeaders },
-      );
+    const changed: string[] = [];
+    const statements: InStatement[] = result.rows.flatMap((row: any) => {
+      const normalizedName = normalizeName(row[2] as string, config);
+      if (normalizedName !== row[3]) {
+        changed.push(row[1] as string);
+      }
+      return [
+        {
+          sql: `
+            UPDATE name_index
+            SET name = ?, translit_key = ?, normalized_with = ?
+            WHERE id = ?
+          `,
+          args: [
+            normalizedName,
+            transliterationKey(normalizedName),
+            fingerprint,
+            row[0],
+          ],
+        },
+        {
+          sql: "DELETE FROM name_trigrams WHERE notion_page_id = ?",
+          args: [row[1]],
+        },
+      ];
+    });
+    if (changed.length > 0) {
+      statements.push(scheduleRegroupStatement(changed));
     }
 
-    console.log(`Previous progress: ${progress.total_indexed} pages indexed`);
-    if (progress.last_cursor) {
-      console.log(`Resuming from cursor: ${progress.last_cursor.substring(0, 20)}...`);
-    }
+    await retryWithBackoff(() => sqlite.batch(statements, "write"));
+    total += result.rows.length;
+  }
 
-    // 4. Get database ID
-    const databaseId = Deno.env.get("NOTION_DATABASE_ID");
-    if (!databaseId) {
-      throw new Error("NOTION_DATABASE_ID environment variable is not set");
-    }
+  return total;
+}
 
-    // 5. Loop multiple batches until near timeout or no more pages
-    let cursor = progress.last_cursor;
-    let totalIndexed = progress.total_indexed;
-    let completed = false;
-    let loopCount = 0;
+/**
+ * Rewrite an indexed page's name and match keys after drift
+ * 
+ * Trigrams are dropped; with fuzzy matching on they are written again from
+ * the new name.
+ */
+async function updateIndexedPage(name: string, pageId: string, keys: MatchKey[]): Promise<void> {
+  const normalizedName = normalizeName(name, config);
 
-    while (Date.now() - startTime < MAX_RUNTIME_MS) {
-      loopCount++;
-      console.log(`\n[Batch ${loopCount}] Fetching up to ${BATCH_SIZE} pages...`);
+  await retryWithBackoff(() =>
+    sqlite.batch([
+      {
+        sql: `
+          UPDATE name_index
+          SET name = ?, raw_name = ?, normalized_with = ?, translit_key = ?
+          WHERE notion_page_id = ?
+        `,
+        args: [
+          normalizedName,
+          name,
+          normalizationFingerprint(config),
+          transliterationKey(normalizedName),
+          pageId,
+        ],
+      },
+      { sql: "DELETE FROM name_trigrams WHERE notion_page_id = ?", args: [pageId] },
+      { sql: "DELETE FROM match_keys WHERE notion_page_id = ?", args: [pageId] },
+    ], "write")
+  );
 
-      const response = await queryNotionDatabase(databaseId, cursor, BATCH_SIZE);
-      const pages = response.results;
-      cursor = response.next_cursor;
-      completed = !response.has_more;
+  await insertMatchKeys(keys, pageId);
+  if (config.fuzzyMatching) {
+    await insertTrigrams([{ name: normalizedName, pageId }]);
+  }
+}
 
-      console.log(`[Batch ${loopCount}] Fetched ${pages.length} pages`);
+/**
+ * Queue pages to be re-tagged by retryPendingTags
+ * 
+ * WHY queue instead of tagging here: Re-tagging costs a GET and a PATCH per
+ * page at 3 requests/second, and one drifted page can touch a whole group.
+ * The queue is drained within its own budget on every run, so a pass never
+ * stalls on tagging, and nothing is lost if a run is cut short.
+ * 
+ * @returns Number of pages queued
+ */
+async function queueRetags(pageIds: string[]): Promise<number> {
+  const unique = [...new Set(pageIds)];
+  const operations: Array<{ pageId: string; label: string | null }> = [];
+  for (const pageId of unique) {
+    operations.push({ pageId, label: await classifyIndexedPage(pageId, config) });
+  }
 
-      if (pages.length === 0) {
-        console.log(`[Batch ${loopCount}] No pages to process, marking as complete`);
-        await updateProgress({
-          last_cursor: null,
-          total_indexed: totalIndexed,
-          completed: true,
+  await retryWithBackoff(() => scheduleTagOperations(operations, 0));
+  return operations.length;
+}
+
+/**
+ * Bring an indexed page's duplicate group in step with its exact matches
+ * 
+ * The page leaves its old group (which may split) and joins the group of
+ * its current exact duplicates; the "Duplicate of" links follow.
+ * 
+ * @returns Pages whose classification may have changed along with it: its
+ *   current matches and the rest of its former group
+ */
+async function regroupPage(pageId: string): Promise<string[]> {
+  const current = await getIndexedPage(pageId);
+  if (!current) {
+    return [];
+  }
+  const matches = await findAllMatches(pageId, current.normalizedName, current.keys, config);
+
+  const split = await leaveGroup(pageId, config);
+  const groups = [...split.groups];
+  if (matches.otherDuplicates.length > 0) {
+    groups.push(await joinGroup([pageId, ...matches.otherDuplicates]));
+  }
+  const grouped = new Set(groups.flatMap((group) => group.members));
+  await applyGroupRelations(
+    notion,
+    config.relationProperty,
+    groups,
+    split.ungrouped.filter((id) => !grouped.has(id)),
+  );
+
+  return [
+    ...matchedPageIds(matches),
+    ...split.groups.flatMap((group) => group.members),
+    ...split.ungrouped.filter((id) => id !== pageId),
+  ];
+}
+
+/**
+ * Compare one batch of Notion pages with the index and fix what drifted
+ * 
+ * Missing pages are inserted, stale names and keys rewritten. Every page
+ * whose classification may have changed is queued for re-tagging: the
+ * drifted page, what it matched before and what it matches now. All pages
+ * of the batch are stamped with the pass, so the verify phase can tell
+ * which indexed pages Notion no longer returns.
+ */
+async function reconcileBatch(pages: NotionPage[], report: DriftReport): Promise<void> {
+  const indexed = await retryWithBackoff(() => getIndexedPages(pages.map((page) => page.id)));
+  const affected: string[] = [];
+  const changed: string[] = [];
+
+  for (const page of pages) {
+    const name = propertyToString(page.properties[config.matchProperty]);
+    if (!name) {
+      continue; // Never indexed without a name, as in processBatch
+    }
+
+    const normalizedName = normalizeName(name, config);
+    const keys = extractMatchKeys(page.properties, config);
+    const previous = indexed.get(page.id);
+
+    if (!previous) {
+      await insertIntoIndex(name, page.id);
+      await insertMatchKeys(keys, page.id);
+      if (config.fuzzyMatching) {
+        await insertTrigrams([{ name: normalizedName, pageId: page.id }]);
+      }
+      recordDrift(report, "added", page.id);
+    } else {
+      const renamed = previous.normalizedName !== normalizedName;
+      if (!renamed && sameMatchKeys(previous.keys, keys)) {
+        continue;
+      }
+
+      affected.push(
+        ...matchedPageIds(
+          await findAllMatches(page.id, previous.normalizedName, previous.keys, config),
+        ),
+      );
+      await updateIndexedPage(name, page.id, keys);
+      if (renamed) {
+        recordDrift(report, "renamed", {
+          pageId: page.id,
+          from: previous.normalizedName,
+          to: normalizedName,
         });
-        console.log("🎉 INDEX BUILDING COMPLETE!");
-        return new Response(
-          `Index building complete (run ${runId}, empty batch). Total indexed: ${totalIndexed}`,
-          { status: 200, headers: responseHeaders },
-        );
+      } else {
+        recordDrift(report, "keysUpdated", page.id);
       }
+    }
 
-      console.log(`[Batch ${loopCount}] Indexing...`);
-      const indexed = await processBatch(pages);
-      totalIndexed += indexed;
+    changed.push(page.id);
+    affected.push(page.id);
+  }
 
-      await updateProgress({
-        last_cursor: cursor,
-        total_indexed: totalIndexed,
-        completed,
-      });
+  // Groups follow the repaired index; tags follow through the queue
+  for (const pageId of changed) {
+    affected.push(...await regroupPage(pageId));
+  }
+  if (affected.length > 0) {
+    report.retagsQueued += await queueRetags(affected);
+  }
 
-      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log(`[Batch ${loopCount}] Processed: ${pages.length} pages`);
-      console.log(`[Batch ${loopCount}] Indexed: ${indexed} (${pages.length - indexed} already existed)`);
+  if (pages.length > 0) {
+    await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: `UPDATE name_index SET reconciled_pass = ? WHERE notion_page_id IN (${
+          pages.map(() => "?").join(", ")
+        })`,
+        args: [report.passId, ...pages.map((page) => page.id)],
+      })
+    );
+  }
+}
+
+/**
+ * Remove a page that left the database and queue its former matches
+ */
+async function removeStalePage(pageId: string, report: DriftReport): Promise<void> {
+  const previous = await getIndexedPage(pageId);
+  if (!previous) {
+    return; // Already removed by the webhook
+  }
+
+  const formerGroup = matchedPageIds(
+    await findAllMatches(pageId, previous.normalizedName, previous.keys, config),
+  );
+  await retryWithBackoff(() => removeFromIndex(pageId));
+  console.log(`  Removed page ${pageId} ("${previous.normalizedName}") from the index`);
+
+  // Regroup the remaining members and rewrite their "Duplicate of" links
+  const split = await leaveGroup(pageId, config);
+  await applyGroupRelations(
+    notion,
+    config.relationProperty,
+    split.groups,
+    split.ungrouped.filter((id) => id !== pageId),
+  );
+
+  recordDrift(report, "removed", pageId);
+  if (formerGroup.length > 0) {
+    report.retagsQueued += await queueRetags(formerGroup);
+  }
+}
+
+/**
+ * Bring the index up to date with pages edited since the previous sync
+ * 
+ * WHY: The reconciliation pass re-reads all 150k pages and takes hours to
+ * come round. Asking Notion only for pages with a recent last_edited_time
+ * (oldest first) catches a missed webhook within a run or two at the cost
+ * of a few queries. Each page goes through reconcileBatch, so anything the
+ * webhook did not apply is repaired, counted in the running pass's drift
+ * report and queued for re-tagging. Pages the webhook already handled are
+ * found in sync and cost nothing but the read.
+ * 
+ * WHY a window, not the newest timestamp seen: Notion rounds
+ * last_edited_time to the minute, and a bulk import can put thousands of
+ * pages in one minute. Each window reads every page edited since
+ * high_water, resuming with its cursor across runs, and only when it is
+ * done does high_water move to the time the window started (minus
+ * SYNC_OVERLAP_MS, for edits Notion had not indexed yet).
+ * 
+ * Archived pages are not returned by the query; the reconciliation's
+ * verify phase removes them.
+ * 
+ * @returns Pages read and whether the window was finished
+ */
+async function syncEditedPages(
+  databaseId: string,
+  report: DriftReport,
+  buildStartedAt: string,
+  deadline: number,
+): Promise<{ pages: number; caughtUp: boolean }> {
+  const result = await retryWithBackoff(() =>
+    sqlite.execute({
+      sql: "SELECT high_water, next_high_water, cursor FROM sync_progress WHERE id = 1",
+      args: [],
+    })
+  );
+  // First sync: everything edited since the build started
+  let highWater = (result.rows[0]?.[0] as string | null) ??
+    new Date(`${buildStartedAt.replace(" ", "T")}Z`).toISOString();
+  let nextHighWater = (result.rows[0]?.[1] ?? null) as string | null;
+  let cursor = (result.rows[0]?.[2] ?? null) as string | null;
+  let pages = 0;
+  let caughtUp = false;
+
+  while (Date.now() < deadline) {
+    if (cursor === null) {
+      nextHighWater = new Date(Date.now() - SYNC_OVERLAP_MS).toISOString();
+    }
+
+    const response = await queryNotionDatabase(databaseId, cursor, BATCH_SIZE, {
+      filter: { timestamp: "last_edited_time", last_edited_time: { on_or_after: highWater } },
+      sorts: [{ timestamp: "last_edited_time", direction: "ascending" }],
+    });
+    await reconcileBatch(response.results, report);
+    pages += response.results.length;
+
+    cursor = response.has_more ? response.next_cursor : null;
+    if (cursor === null) {
+      highWater = nextHighWater!;
+      caughtUp = true;
+    }
+
+    await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: `
+          INSERT INTO sync_progress (id, high_water, next_high_water, cursor, last_synced_at)
+          VALUES (1, ?, ?, ?, datetime('now'))
+          ON CONFLICT(id) DO UPDATE SET
+            high_water = excluded.high_water,
+            next_high_water = excluded.next_high_water,
+            cursor = excluded.cursor,
+            last_synced_at = excluded.last_synced_at
+        `,
+        args: [highWater, nextHighWater, cursor],
+      })
+    );
+    await retryWithBackoff(() => saveDriftReport(report));
+
+    if (caughtUp) {
+      break;
+    }
+  }
+
+  return { pages, caughtUp };
+}
+
+/**
+ * Reconcile the index with Notion in time-boxed passes
+ * 
+ * WHY: After the build completes, only the webhook keeps the index current,
+ * and it misses pages now and then: a failed automation, an import with
+ * automations turned off, a rename while the Val was down, a bulk delete.
+ * Without a repair, such a page is never matched (or keeps matching after
+ * it is gone) for good.
+ * 
+ * A pass has two phases, resumed across runs (reconcile_progress):
+ * 1. scan: query the database 100 pages at a time and fix each batch
+ *    (reconcileBatch)
+ * 2. verify: fetch each indexed page the scan did not return. Archived,
+ *    trashed or moved pages are removed. Pages indexed after the pass
+ *    started are left alone, since the scan may simply have passed them.
+ * 
+ * The pass's counts and examples go to drift_reports (shared/drift-reports.ts),
+ * saved after every batch.
+ * 
+ * WHY not remove on 404: A lost integration permission also returns 404,
+ * and treating that as "deleted" could empty the whole index. Such pages
+ * are reported as unreachable instead.
+ * 
+ * @param report - Report of the running pass (currentDriftReport, or a
+ *   new one from startDriftReport)
+ */
+async function reconcileIndex(
+  databaseId: string,
+  report: DriftReport,
+  deadline: number,
+): Promise<void> {
+  const progressResult = await retryWithBackoff(() =>
+    sqlite.execute({
+      sql: "SELECT phase, cursor, last_checked_id FROM reconcile_progress WHERE id = 1",
+      args: [],
+    })
+  );
+  let phase = progressResult.rows[0][0] as string;
+  let cursor = progressResult.rows[0][1] as string | null;
+  let lastCheckedId = Number(progressResult.rows[0][2] ?? 0);
+
+  const saveProgress = async (completed = false) => {
+    await retryWithBackoff(() => saveDriftReport(report, completed));
+    await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: "UPDATE reconcile_progress SET phase = ?, cursor = ?, last_checked_id = ? WHERE id = 1",
+        args: [phase, cursor, lastCheckedId],
+      })
+    );
+  };
+
+  while (phase === "scan" && Date.now() < deadline) {
+    const response = await queryNotionDatabase(databaseId, cursor, BATCH_SIZE);
+    await reconcileBatch(response.results, report);
+    report.pagesScanned += response.results.length;
+    cursor = response.next_cursor;
+    if (!response.has_more) {
+      phase = "verify";
+      cursor = null;
+      lastCheckedId = 0;
+    }
+    await saveProgress();
+  }
+
+  while (phase === "verify" && Date.now() < deadline) {
+    const result = await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: `
+          SELECT id, notion_page_id FROM name_index
+          WHERE id > ?
+            AND (reconciled_pass IS NULL OR reconciled_pass != ?)
+            AND created_at < ?
+          ORDER BY id
+          LIMIT ?
+        `,
+        args: [lastCheckedId, report.passId, report.startedAt, CHECK_CHUNK_SIZE],
+      })
+    );
+
+    if (result.rows.length === 0) {
+      // Pass complete: the next run starts a new one
+      phase = "scan";
+      lastCheckedId = 0;
+      await saveProgress(true);
+      console.log(`Reconciliation ${summarizeDrift(report)} (pass complete)`);
+      break;
+    }
+
+    for (const row of result.rows) {
+      if (Date.now() >= deadline) {
+        break;
+      }
+
+      const pageId = row[1] as string;
+      try {
+        const page = await notion.getPage<NotionPage>(pageId);
+        const parentId = (page.parent?.database_id ?? "").replace(/-/g, "").toLowerCase();
+        const movedAway = page.parent !== undefined &&
+          parentId !== databaseId.replace(/-/g, "").toLowerCase();
+        if (page.archived || page.in_trash || movedAway) {
+          await removeStalePage(pageId, report);
+        }
+      } catch (error) {
+        if (isNotionApiError(error) && error.status === 404) {
+          recordDrift(report, "unreachable", pageId);
+        } else {
+          console.error(`  Reconciliation: could not check page ${pageId}: ${(error as Error).message}`);
+        }
+      }
+      lastCheckedId = Number(row[0]);
+    }
+
+    await saveProgress();
+  }
+}
+
+/**
+ * Retry tag updates the webhook queued after a failure
+ *
+ * Each page is re-classified against the current index and its tag put
+ * into that state; pages no longer indexed are dropped from the queue.
+ * Pages queued by the re-normalization pass are regrouped first, and the
+ * pages that regrouping affects are queued in turn.
+ * Failures back off exponentially and go to the dead-letter list after
+ * MAX_ATTEMPTS (shared/pending-operations.ts).
+ *
+ * @returns Operations completed, failed again and moved to dead letters
+ */
+async function retryPendingTags(
+  databaseId: string,
+  deadline: number,
+): Promise<{ completed: number; failed: number; dead: number }> {
+  const stats = { completed: 0, failed: 0, dead: 0 };
+  let tagProperty: TagPropertySchema | null = null;
+
+  while (Date.now() < deadline) {
+    const operations = await retryWithBackoff(() => dueOperations(CHECK_CHUNK_SIZE));
+    if (operations.length === 0) {
+      break;
+    }
+
+    for (const operation of operations) {
+      if (Date.now() >= deadline) {
+        break;
+      }
+
+      try {
+        if (await getIndexedPage(operation.pageId)) {
+          tagProperty ??= resolveTagProperty(
+            await notion.getDatabase<NotionDatabase>(databaseId),
+            config.tagProperty,
+            tagLabels(config),
+          );
+          if (operation.regroup) {
+            const affected = (await regroupPage(operation.pageId))
+              .filter((id) => id !== operation.pageId);
+            if (affected.length > 0) {
+              await queueRetags(affected);
+            }
+          }
+          const label = await classifyIndexedPage(operation.pageId, config);
+          await syncNotionTag(operation.pageId, label, tagProperty);
+        }
+        await completeOperation(operation.id);
+        stats.completed++;
+      } catch (error: any) {
+        stats.failed++;
+        if (await failOperation(operation, error.message)) {
+          stats.dead++;
+          console.error(
+            `  Tag retry for page ${operation.pageId} moved to dead letters ` +
+              `after ${operation.attempts + 1} attempts: ${error.message}`,
+          );
+        }
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Count existing rows in the name_index table
+ */
+async function getExistingIndexCount(): Promise<number> {
+  const result = await retryWithBackoff(() =>
+    sqlite.execute({ sql: "SELECT COUNT(*) FROM name_index", args: [] })
+  );
+  return Number(result.rows[0][0] || 0);
+}
+
+/**
+ * A page of the batch being built, as it was indexed
+ */
+interface BatchEntry {
+  page: NotionPage;
+  name: string;
+  normalizedName: string;
+  keys: MatchKey[];
+}
+
+/**
+ * Settings for tagging duplicates during the build
+ */
+interface BuildTagging {
+  tagProperty: TagPropertySchema;
+  /** Tag inline until then; later tags are queued for retryPendingTags */
+  deadline: number;
+}
+
+/**
+ * Add a duplicate label to a page, never lowering "Duplicate" to "Possible
+ * Duplicate" and never overriding a reviewer's "Not Duplicate"
+ *
+ * @param currentValue - The page's tag value if it was already read (a page
+ *   from the batch); read from Notion if omitted
+ * @returns Label the page carries afterwards, or null if it was left alone
+ */
+async function addDuplicateTag(
+  pageId: string,
+  label: string,
+  tagProperty: TagPropertySchema,
+  currentValue?: TagPropertyValue,
+): Promise<string | null> {
+  const value = currentValue ??
+    (await notion.getPage<NotionPage>(pageId)).properties[config.tagProperty];
+
+  if (hasTag(tagProperty, value, label)) {
+    return label;
+  }
+  if (label !== config.tagLabel && hasTag(tagProperty, value, config.tagLabel)) {
+    return config.tagLabel;
+  }
+  if (hasNotDuplicateMark(tagProperty, value, config)) {
+    return null;
+  }
+
+  await notion.updatePageProperties(
+    pageId,
+    buildTagUpdate(tagProperty, value, label, [config.notDuplicateLabel]),
+  );
+  return label;
+}
+
+/**
+ * Pages of a batch that may have a match in the index
+ *
+ * WHY a pre-filter: findAllMatches costs several queries per page, and most
+ * of the 150k pages are unique. Three grouped queries per batch find the
+ * pages sharing a name, a match key or a transliteration key with any other
+ * indexed page (the batch is already inserted, so pages of the same batch
+ * find each other). Fuzzy matches cannot be pre-filtered this way, so with
+ * fuzzy matching on every page is a candidate.
+ */
+async function findCandidatePages(entries: BatchEntry[]): Promise<Set<string>> {
+  if (config.fuzzyMatching || entries.length === 0) {
+    return new Set(entries.map((entry) => entry.page.id));
+  }
+
+  const names = [...new Set(entries.map((entry) => entry.normalizedName))];
+  const nameResult = await sqlite.execute({
+    sql: `
+      SELECT name FROM name_index
+      WHERE name IN (${names.map(() => "?").join(", ")})
+      GROUP BY name
+      HAVING COUNT(*) > 1
+    `,
+    args: names,
+  });
+  const sharedNames = new Set(nameResult.rows.map((row: any) => row[0] as string));
+
+  const keys = entries.flatMap((entry) => entry.keys);
+  const sharedKeys = new Set<string>();
+  if (keys.length > 0) {
+    const keyResult = await sqlite.execute({
+      sql: `
+        SELECT key_type, key_value FROM match_keys
+        WHERE ${keys.map(() => "(key_type = ? AND key_value = ?)").join(" OR ")}
+        GROUP BY key_type, key_value
+        HAVING COUNT(DISTINCT notion_page_id) > 1
+      `,
+      args: keys.flatMap((key) => [key.type, key.value]),
+    });
+    for (const row of keyResult.rows) {
+      sharedKeys.add(`${row[0]}:${row[1]}`);
+    }
+  }
+
+  const sharedTranslitKeys = new Set<string>();
+  const translitKeys = config.transliterationMatching
+    ? [...new Set(entries.map((entry) => transliterationKey(entry.normalizedName)).filter(Boolean))]
+    : [];
+  if (translitKeys.length > 0) {
+    const translitResult = await sqlite.execute({
+      sql: `
+        SELECT translit_key FROM name_index
+        WHERE translit_key IN (${translitKeys.map(() => "?").join(", ")})
+        GROUP BY translit_key
+        HAVING COUNT(DISTINCT name) > 1
+      `,
+      args: translitKeys,
+    });
+    for (const row of translitResult.rows) {
+      sharedTranslitKeys.add(row[0] as string);
+    }
+  }
+
+  return new Set(
+    entries
+      .filter((entry) =>
+        sharedNames.has(entry.normalizedName) ||
+        entry.keys.some((key) => sharedKeys.has(`${key.type}:${key.value}`)) ||
+        (config.transliterationMatching &&
+          sharedTranslitKeys.has(transliterationKey(entry.normalizedName)))
+      )
+      .map((entry) => entry.page.id),
+  );
+}
+
+/**
+ * Find the duplicates of a freshly indexed batch and tag them
+ *
+ * WHY here: Historical duplicates used to be tagged by the local backfill,
+ * run on someone's machine before this builder. Each page is now matched
+ * against everything indexed so far, including the rest of its batch, so
+ * every pair is found once its second page is indexed, and the whole
+ * backfill runs unattended in 45-second slices.
+ *
+ * Tags only ever add a label (as in the webhook): the page itself is tagged
+ * from the value the query returned, its matches only when
+ * name_index.tag_label does not show the label already. Exact duplicates
+ * join their group, whose "Duplicate of" links are written once per batch.
+ * A page a reviewer marked "Not Duplicate" records its matches as
+ * exceptions instead of being tagged.
+ *
+ * Once the deadline has passed, or when an update fails, the tag goes to
+ * pending_operations instead, for retryPendingTags to write on a later run.
+ */
+async function tagBatchDuplicates(
+  entries: BatchEntry[],
+  tagging: BuildTagging,
+): Promise<BuildTagStats> {
+  const stats: BuildTagStats = { duplicatesFound: 0, pagesTagged: 0, tagsQueued: 0 };
+  const candidates = await retryWithBackoff(() => findCandidatePages(entries));
+  const carried = new Map<string, string>(); // Labels written (or found) in this batch
+  const queued = new Map<string, string>();
+  const groupIds = new Set<number>();
+
+  for (const entry of entries) {
+    const pageId = entry.page.id;
+    if (!candidates.has(pageId)) {
+      continue;
+    }
+
+    const currentValue = entry.page.properties[config.tagProperty];
+    if (hasNotDuplicateMark(tagging.tagProperty, currentValue, config)) {
+      const matched = matchedPageIds(
+        await findAllMatches(pageId, entry.normalizedName, entry.keys, config, false),
+      );
+      await retryWithBackoff(() =>
+        recordDistinctPairs(matched.map((id): [string, string] => [pageId, id]), "notion")
+      );
+      continue;
+    }
+
+    const matches = await findAllMatches(pageId, entry.normalizedName, entry.keys, config);
+    const label = labelFor(matches, config);
+    if (!label) {
+      continue;
+    }
+    stats.duplicatesFound++;
+
+    if (matches.otherDuplicates.length > 0) {
+      groupIds.add((await joinGroup([pageId, ...matches.otherDuplicates])).groupId);
+    }
+
+    const targets = [
+      { pageId, label },
+      ...matches.otherDuplicates.map((id) => ({ pageId: id, label: config.tagLabel })),
+      ...[...matches.transliterationPageIds, ...matches.fuzzyMatches.map((match) => match.pageId)]
+        .map((id) => ({ pageId: id, label: config.possibleDuplicateLabel })),
+    ];
+    const known = await retryWithBackoff(() =>
+      knownTagLabels(targets.map((target) => target.pageId))
+    );
+
+    for (const target of targets) {
+      const current = carried.get(target.pageId) ?? known.get(target.pageId);
+      if (current === target.label || current === config.tagLabel) {
+        continue;
+      }
+      if (Date.now() >= tagging.deadline) {
+        queued.set(target.pageId, target.label);
+        continue;
+      }
+
+      try {
+        const result = await addDuplicateTag(
+          target.pageId,
+          target.label,
+          tagging.tagProperty,
+          target.pageId === pageId ? currentValue : undefined,
+        );
+        if (result) {
+          carried.set(target.pageId, result);
+          queued.delete(target.pageId);
+          stats.pagesTagged++;
+        }
+      } catch (error: any) {
+        console.error(`  Failed to tag page ${target.pageId}: ${error.message}`);
+        await retryWithBackoff(() =>
+          enqueueTagOperation(target.pageId, target.label, error.message)
+        );
+        stats.tagsQueued++;
+      }
+    }
+  }
+
+  // Latest state of each group (a group merged into another is gone)
+  const groups: DuplicateGroup[] = [];
+  for (const groupId of groupIds) {
+    const group = await retryWithBackoff(() => getGroup(groupId));
+    if (group) {
+      groups.push(group);
+    }
+  }
+  await applyGroupRelations(notion, config.relationProperty, groups, []);
+
+  await retryWithBackoff(() =>
+    scheduleTagOperations(
+      [...queued].map(([pageId, label]) => ({ pageId, label })),
+      0,
+    )
+  );
+  stats.tagsQueued += queued.size;
+  await retryWithBackoff(() =>
+    recordTagLabels([...carried].map(([pageId, label]) => ({ pageId, label })))
+  );
+
+  return stats;
+}
+
+/**
+ * Read the name and match keys of each page (pages without a name are
+ * never indexed)
+ */
+function toBatchEntries(pages: NotionPage[]): BatchEntry[] {
+  const entries: BatchEntry[] = [];
+
+  for (const page of pages) {
+    const name = propertyToString(page.properties[config.matchProperty]);
+    if (!name) {
+      console.log(`  Skipping page ${page.id} - no ${config.matchProperty} property`);
+      continue;
+    }
+
+    entries.push({
+      page,
+      name,
+      normalizedName: normalizeName(name, config),
+      keys: extractMatchKeys(page.properties, config),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Write a batch of pages to the index in one transaction
+ * 
+ * WHY one sqlite.batch: Val.town's SQLite is a remote service, and writing
+ * each page on its own (name, trigrams, keys) cost up to 300 round-trips
+ * per Notion page of results, most of the 45-second budget. One batch is a
+ * single round-trip, and the caller's progress update commits with the
+ * rows, so a run cut short never saves a cursor past pages it did not
+ * write (or writes pages without moving the cursor).
+ * 
+ * Pages already indexed are skipped by INSERT OR IGNORE, as are their
+ * trigrams when the index holds them under another name (reconciliation
+ * rewrites those). Match keys are added for every page, which keeps
+ * re-runs idempotent and fills in keys for pages indexed before a key
+ * property was configured.
+ * 
+ * @param progressUpdate - Builds the caller's progress statement from an
+ *   SQL expression for the number of pages inserted; it runs right after
+ *   the name_index insert, whose changes() it reads
+ * @returns Number of pages inserted (the rest were already indexed)
+ */
+async function writeBatch(
+  entries: BatchEntry[],
+  tables: IndexTables,
+  progressUpdate: (inserted: string) => InStatement,
+): Promise<number> {
+  if (entries.length === 0) {
+    await retryWithBackoff(() => sqlite.execute(progressUpdate("0")));
+    return 0;
+  }
+
+  const statements: InStatement[] = [
+    {
+      sql: `
+        INSERT OR IGNORE INTO ${tables.names}
+          (name, notion_page_id, raw_name, normalized_with, translit_key)
+        VALUES ${entries.map(() => "(?, ?, ?, ?, ?)").join(", ")}
+      `,
+      args: entries.flatMap((entry) => [
+        entry.normalizedName,
+        entry.page.id,
+        entry.name,
+        normalizationFingerprint(config),
+        transliterationKey(entry.normalizedName),
+      ]),
+    },
+    progressUpdate("changes()"),
+  ];
+
+  if (config.fuzzyMatching) {
+    for (let i = 0; i < entries.length; i += TRIGRAM_CHUNK_SIZE) {
+      const rows = entries.slice(i, i + TRIGRAM_CHUNK_SIZE).flatMap((entry) =>
+        trigrams(entry.normalizedName).map((gram) => [gram, entry.page.id, entry.normalizedName])
+      );
+      if (rows.length === 0) {
+        continue;
+      }
+      statements.push({
+        sql: `
+          WITH batch (trigram, notion_page_id, name) AS (
+            VALUES ${rows.map(() => "(?, ?, ?)").join(", ")}
+          )
+          INSERT OR IGNORE INTO ${tables.trigrams} (trigram, notion_page_id)
+          SELECT batch.trigram, batch.notion_page_id FROM batch
+          JOIN ${tables.names} n
+            ON n.notion_page_id = batch.notion_page_id AND n.name = batch.name
+        `,
+        args: rows.flat(),
+      });
+    }
+  }
+
+  const keyRows = entries.flatMap((entry) =>
+    entry.keys.map((key) => [key.type, key.value, entry.page.id])
+  );
+  if (keyRows.length > 0) {
+    statements.push({
+      sql: `INSERT OR IGNORE INTO ${tables.keys} (key_type, key_value, notion_page_id) VALUES ${
+        keyRows.map(() => "(?, ?, ?)").join(", ")
+      }`,
+      args: keyRows.flat(),
+    });
+  }
+
+  const results = await retryWithBackoff(() => sqlite.batch(statements, "write"));
+  return results[0].rowsAffected ?? 0;
+}
+
+/**
+ * Add a batch's duplicate work to the build's totals, and mark the batch
+ * as tagged
+ */
+async function finishBatchTagging(stats: BuildTagStats): Promise<void> {
+  await retryWithBackoff(() =>
+    sqlite.execute({
+      sql: `
+        UPDATE index_builder_progress
+        SET untagged_cursor = NULL,
+            duplicates_found = COALESCE(duplicates_found, 0) + ?,
+            pages_tagged = COALESCE(pages_tagged, 0) + ?,
+            tags_queued = COALESCE(tags_queued, 0) + ?
+        WHERE id = 1
+      `,
+      args: [stats.duplicatesFound, stats.pagesTagged, stats.tagsQueued],
+    })
+  );
+}
+
+/**
+ * Tag the batch a previous run indexed but did not finish tagging
+ * 
+ * WHY: The cursor moves past a batch in the transaction that indexes it,
+ * before its duplicates are tagged. A run that ends in between (an error,
+ * a hard timeout) leaves untagged_cursor set, and the batch is read again
+ * from there. Its rows are already indexed, so only the tagging is redone.
+ */
+async function tagInterruptedBatch(
+  databaseId: string,
+  untaggedCursor: string,
+  tagging: BuildTagging,
+): Promise<BuildTagStats> {
+  // "" stands for the first batch, whose cursor is null
+  const response = await queryNotionDatabase(databaseId, untaggedCursor || null, BATCH_SIZE);
+  const stats = await tagBatchDuplicates(toBatchEntries(response.results), tagging);
+  await finishBatchTagging(stats);
+  return stats;
+}
+
+/**
+ * Process a batch of pages: index them in SQLite, then (unless tagging is
+ * off) find and tag their duplicates
+ *
+ * @param tables - Where to index (the shadow tables during a rebuild, which
+ *   never tags: the matchers read the live tables)
+ * @param progressUpdate - The caller's progress statement, committed with
+ *   the rows (see writeBatch)
+ */
+async function processBatch(
+  pages: NotionPage[],
+  tagging: BuildTagging | null,
+  tables: IndexTables,
+  progressUpdate: (inserted: string) => InStatement,
+): Promise<{ indexed: number; tagging: BuildTagStats }> {
+  const entries = toBatchEntries(pages);
+  const indexed = await writeBatch(entries, tables, progressUpdate);
+
+  if (!tagging) {
+    return { indexed, tagging: { duplicatesFound: 0, pagesTagged: 0, tagsQueued: 0 } };
+  }
+
+  // Every page of the batch is matched, inserted now or by an earlier run
+  const stats = await tagBatchDuplicates(entries, tagging);
+  await finishBatchTagging(stats);
+  return { indexed, tagging: stats };
+}
+
+const REBUILD_COLUMNS =
+  "generation, cursor, pages_read, total_indexed, expected_total, started_at, last_run_at";
+
+function toRebuild(row: any): Rebuild {
+  return {
+    generation: Number(row[0]),
+    cursor: row[1] as string | null,
+    pagesRead: Number(row[2] ?? 0),
+    totalIndexed: Number(row[3] ?? 0),
+    expectedTotal: Number(row[4] ?? 0),
+    startedAt: row[5] as string,
+    lastRunAt: row[6] as string | null,
+  };
+}
+
+/**
+ * The rebuild in progress, if any
+ */
+async function getRebuild(): Promise<Rebuild | null> {
+  const result = await retryWithBackoff(() =>
+    sqlite.execute({ sql: `SELECT ${REBUILD_COLUMNS} FROM index_rebuild WHERE id = 1`, args: [] })
+  );
+  return result.rows.length > 0 ? toRebuild(result.rows[0]) : null;
+}
+
+/**
+ * Start rebuilding the index into empty shadow tables
+ *
+ * @param generation - Generation the shadow tables will become
+ */
+async function startRebuild(generation: number): Promise<Rebuild> {
+  await retryWithBackoff(() => createShadowIndexTables());
+  const result = await retryWithBackoff(() =>
+    sqlite.execute({
+      sql: `
+        INSERT INTO index_rebuild (id, generation, expected_total)
+        VALUES (1, ?, (SELECT COUNT(*) FROM name_index))
+        RETURNING ${REBUILD_COLUMNS}
+      `,
+      args: [generation],
+    })
+  );
+  return toRebuild(result.rows[0]);
+}
+
+/**
+ * Stop a rebuild and drop its shadow tables
+ *
+ * @returns false if no rebuild was in progress
+ */
+async function cancelRebuild(): Promise<boolean> {
+  const result = await retryWithBackoff(() =>
+    sqlite.execute({ sql: "DELETE FROM index_rebuild WHERE id = 1", args: [] })
+  );
+  await retryWithBackoff(() => dropShadowIndexTables());
+  return (result.rowsAffected ?? 0) > 0;
+}
+
+/**
+ * Index the database into the shadow tables, then swap them in
+ * 
+ * WHY a shadow generation: Rebuilding after a normalization change used to
+ * mean dropping name_index, leaving the webhook blind to every existing
+ * page until the build caught up. The rebuild writes name_index_next (and
+ * its trigram and match key tables) over as many runs as it takes while the
+ * webhook keeps using the live tables, and one write batch swaps the new
+ * generation in once it holds every page (shared/schema.ts).
+ * 
+ * Rebuilds only index: the matchers read the live tables, so duplicates
+ * are not looked for here. Pages changed while the rebuild ran are caught
+ * by the incremental sync, whose high-water mark the swap moves back to
+ * the rebuild's start; pages archived meanwhile are left to reconciliation.
+ * 
+ * @returns Pages indexed in this run and whether the new generation is live
+ */
+async function buildShadowIndex(
+  databaseId: string,
+  rebuild: Rebuild,
+  deadline: number,
+): Promise<{ indexed: number; swapped: boolean }> {
+  let indexed = 0;
+
+  while (Date.now() < deadline) {
+    const response = await queryNotionDatabase(databaseId, rebuild.cursor, BATCH_SIZE);
+    // The last batch keeps its own cursor, so a failed swap re-reads only that batch
+    const nextCursor = response.has_more ? response.next_cursor : rebuild.cursor;
+    const batch = await processBatch(
+      response.results,
+      null,
+      SHADOW_INDEX_TABLES,
+      (inserted) => ({
+        sql: `
+          UPDATE index_rebuild
+          SET cursor = ?, pages_read = pages_read + ?, total_indexed = total_indexed + ${inserted},
+              last_run_at = datetime('now')
+          WHERE id = 1
+        `,
+        args: [nextCursor, response.results.length],
+      }),
+    );
+    indexed += batch.indexed;
+    rebuild.totalIndexed += batch.indexed;
+    rebuild.pagesRead += response.results.length;
+    rebuild.cursor = nextCursor;
+
+    if (!response.has_more) {
+      await swapInShadowIndex(rebuild);
+      return { indexed, swapped: true };
+    }
+  }
+
+  return { indexed, swapped: false };
+}
+
+/**
+ * Make a finished rebuild the live index, in one transaction
+ */
+async function swapInShadowIndex(rebuild: Rebuild): Promise<void> {
+  const syncFrom = new Date(
+    new Date(`${rebuild.startedAt.replace(" ", "T")}Z`).getTime() - SYNC_OVERLAP_MS,
+  ).toISOString();
+
+  await retryWithBackoff(() =>
+    sqlite.batch([
+      ...shadowSwapStatements(),
+      {
+        sql: `
+          UPDATE index_builder_progress
+          SET generation = ?, last_cursor = NULL, total_indexed = ?, pages_read = ?,
+              expected_total = NULL, completed = 1, last_run_at = datetime('now')
+          WHERE id = 1
+        `,
+        args: [rebuild.generation, rebuild.totalIndexed, rebuild.pagesRead],
+      },
+      {
+        sql: `
+          INSERT INTO sync_progress (id, high_water, next_high_water, cursor)
+          VALUES (1, ?, NULL, NULL)
+          ON CONFLICT(id) DO UPDATE SET
+            high_water = excluded.high_water,
+            next_high_water = NULL,
+            cursor = NULL
+        `,
+        args: [syncFrom],
+      },
+      { sql: "DELETE FROM index_rebuild WHERE id = 1", args: [] },
+    ], "write")
+  );
+
+  console.log(
+    `🎉 Generation ${rebuild.generation} is live: ${rebuild.totalIndexed} pages indexed`,
+  );
+}
+
+/**
+ * Estimate what is left of a build from its pace so far
+ * 
+ * WHY only with an expected total: Notion does not say how many pages a
+ * database holds, so a first build has nothing to compare with. A reset or
+ * a rebuild expects as many pages as the live index held when it started.
+ * 
+ * @returns Pages left, and minutes left at the pace of the runs so far
+ *   (null until a run has finished)
+ */
+function estimateRemaining(
+  pagesRead: number,
+  expectedTotal: number | null,
+  startedAt: string,
+  lastRunAt: string | null,
+): { pages: number; minutes: number | null } | null {
+  if (expectedTotal === null) {
+    return null;
+  }
+
+  const pages = Math.max(expectedTotal - pagesRead, 0);
+  const elapsedMinutes = lastRunAt
+    ? (Date.parse(`${lastRunAt.replace(" ", "T")}Z`) -
+      Date.parse(`${startedAt.replace(" ", "T")}Z`)) / 60_000
+    : 0;
+  const minutes = pagesRead > 0 && elapsedMinutes > 0
+    ? Math.ceil(pages / (pagesRead / elapsedMinutes))
+    : null;
+
+  return { pages, minutes };
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * Build progress as the status route reports it
+ */
+async function buildStatus(): Promise<Record<string, unknown>> {
+  const progress = await getProgress();
+  const rebuild = await getRebuild();
+  const indexedRows = await getExistingIndexCount();
+
+  return {
+    success: true,
+    generation: progress.generation,
+    indexedRows,
+    build: {
+      completed: progress.completed,
+      cursor: progress.last_cursor,
+      totalIndexed: progress.total_indexed,
+      pagesRead: progress.pages_read,
+      startedAt: progress.started_at,
+      lastRunAt: progress.last_run_at,
+      ...progress.tagging,
+      estimatedRemaining: progress.completed ? null : estimateRemaining(
+        progress.pages_read,
+        progress.expected_total,
+        progress.started_at,
+        progress.last_run_at,
+      ),
+    },
+    rebuild: rebuild && {
+      ...rebuild,
+      estimatedRemaining: estimateRemaining(
+        rebuild.pagesRead,
+        rebuild.expectedTotal,
+        rebuild.startedAt,
+        rebuild.lastRunAt,
+      ),
+    },
+  };
+}
+
+/**
+ * Control API for the index builder
+ * 
+ * - GET    /status   build progress (and the rebuild's, if one runs) as JSON
+ * - POST   /reset    start the build over from the first page; pages already
+ *                    indexed stay, and are matched and tagged again
+ * - POST   /rebuild  rebuild the index into shadow tables, then swap
+ * - DELETE /rebuild  cancel a rebuild and drop its shadow tables
+ * 
+ * Reset and rebuild take effect on the next run, and are best sent between
+ * runs: a run in progress saves its own cursor when it finishes a batch.
+ * 
+ * WHY authenticated: Reset and rebuild restart hours of work, so the
+ * routes take the webhook's secrets (shared/webhook-auth.ts), and refuse
+ * with 403 while none is configured rather than run for anyone with the
+ * URL. /status only reads and stays open without a secret. Running the
+ * builder itself needs none, as before. Like the webhook's API routes,
+ * bad requests get a 4xx.
+ */
+async function handleControl(req: Request, pathname: string): Promise<Response> {
+  const secrets = loadWebhookSecrets();
+  if (pathname !== "/status" && !hasWebhookSecret(secrets)) {
+    console.warn(`Refused ${req.method} ${pathname}: no webhook secret is configured`);
+    return jsonResponse(
+      {
+        success: false,
+        error: "Set WEBHOOK_SHARED_SECRET or WEBHOOK_SIGNING_SECRET to use this route",
+      },
+      403,
+    );
+  }
+
+  const auth = await verifyWebhookRequest(req.headers, await req.clone().text(), secrets);
+  if (!auth.ok) {
+    console.warn(`Rejected ${req.method} ${pathname}: ${auth.reason}`);
+    return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  await initializeTables();
+
+  if (pathname === "/status") {
+    if (req.method !== "GET") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+    return jsonResponse(await buildStatus());
+  }
+
+  if (pathname === "/reset") {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+    await getProgress(); // Creates the row on a fresh database
+    await retryWithBackoff(() =>
+      sqlite.execute({
+        sql: `
+          UPDATE index_builder_progress
+          SET last_cursor = NULL, total_indexed = 0, completed = 0, pages_read = 0,
+              duplicates_found = 0, pages_tagged = 0, tags_queued = 0, untagged_cursor = NULL,
+              expected_total = (SELECT COUNT(*) FROM name_index),
+              started_at = datetime('now'), last_run_at = NULL
+          WHERE id = 1
+        `,
+        args: [],
+      })
+    );
+    console.log("Index build reset: the next run starts from the first page");
+    return jsonResponse(await buildStatus());
+  }
+
+  if (req.method === "DELETE") {
+    const cancelled = await cancelRebuild();
+    console.log(cancelled ? "Rebuild cancelled, shadow tables dropped" : "No rebuild to cancel");
+    return jsonResponse({ success: true, cancelled });
+  }
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const progress = await getProgress();
+  if (!progress.completed) {
+    return jsonResponse(
+      { success: false, error: "The build is not complete yet; reset it instead of rebuilding" },
+      409,
+    );
+  }
+  const running = await getRebuild();
+  if (running) {
+    return jsonResponse(
+      { success: false, error: `Generation ${running.generation} is already being rebuilt`, rebuild: running },
+      409,
+    );
+  }
+
+  const rebuild = await startRebuild(progress.generation + 1);
+  console.log(`Rebuilding the index as generation ${rebuild.generation}`);
+  return jsonResponse({ success: true, rebuild }, 202);
+}
+
+/**
+ * Paths served by handleControl; any other request runs the builder
+ */
+const CONTROL_ROUTES = ["/status", "/reset", "/rebuild"];
+
+/**
+ * Main scheduled/HTTP function
+ * 
+ * @param trigger - The Request for HTTP runs (scheduled runs get an
+ *   interval object instead)
+ */
+export default async function indexBuilder(trigger?: unknown): Promise<Response> {
+  if (trigger instanceof Request) {
+    const { pathname } = new URL(trigger.url);
+    if (CONTROL_ROUTES.includes(pathname)) {
+      try {
+        return await handleControl(trigger, pathname);
+      } catch (error: any) {
+        console.error(`Error handling ${trigger.method} ${pathname}:`, error);
+        return jsonResponse({ success: false, error: "Internal server error", message: error.message });
+      }
+    }
+  }
+
+  const startTime = Date.now();
+  const runId = new Date().toISOString();
+  const responseHeaders = { "Cache-Control": "no-store" };
+  console.log("=== Index Builder Run Started ===");
+  console.log(`Time: ${runId}`);
+  console.log(`Batch size (requested): ${BATCH_SIZE} (Notion returns up to 100)`);
+
+  try {
+    // 1. Initialize tables
+    await initializeTables();
+
+    /**
+     * 2. Check progress and sync with pre-existing index rows
+     * 
+     * WHY: If the webhook handler has already indexed some pages (from real-time
+     * detection), we want to account for them in our total. This prevents
+     * showing misleading progress (e.g., "0 indexed" when 100 already exist).
+     */
+    const progress = await getProgress();
+    if (!progress.completed && progress.total_indexed === 0) {
+      const existingCount = await getExistingIndexCount();
+      if (existingCount > 0) {
+        await updateProgress({
+          last_cursor: progress.last_cursor,
+          total_indexed: existingCount,
+          completed: progress.completed,
+        });
+        progress.total_indexed = existingCount;
+      }
+    }
+
+    /**
+     * 2a. Bring rows from an older normalization pipeline up to date
+     * 
+     * Runs before the trigram back-fill, which then rebuilds the trigrams
+     * of every re-normalized row. Capped at a third of the runtime budget.
+     */
+    const renormalized = await renormalizeIndex(startTime + MAX_RUNTIME_MS / 3);
+    if (renormalized > 0) {
+      console.log(`Re-normalized ${renormalized} indexed names`);
+    }
+
+    /**
+     * 2b. Fuzzy mode: make sure every indexed name has trigrams
+     * 
+     * Capped at half the runtime budget so a partial build still makes
+     * progress through Notion in the same run.
+     */
+    if (config.fuzzyMatching) {
+      const trigramRows = await indexMissingTrigrams(startTime + MAX_RUNTIME_MS / 2);
+      if (trigramRows > 0) {
+        console.log(`Added fuzzy-match trigrams for ${trigramRows} indexed names`);
+      }
+    }
+
+    /**
+     * 2c. Retry tag updates the webhook could not make
+     * 
+     * Usually a handful of pages, so it runs before the build or the
+     * reconciliation; capped at a quarter of the runtime budget all the same.
+     */
+    const databaseId = Deno.env.get("NOTION_DATABASE_ID");
+    if (!databaseId) {
+      throw new Error("NOTION_DATABASE_ID environment variable is not set");
+    }
+    const retries = await retryPendingTags(databaseId, startTime + MAX_RUNTIME_MS / 4);
+    if (retries.completed + retries.failed > 0) {
+      console.log(
+        `Tag retries: ${retries.completed} done, ${retries.failed} failed ` +
+          `(${retries.dead} moved to dead letters)`,
+      );
+    }
+
+    /**
+     * 2d. Tag duplicates as they are indexed (BUILD_TAGGING, on by default)
+     * 
+     * Tagging stops at the same 85% mark as the batch loop, so a batch that
+     * is still running then queues its remaining tags instead. A batch the
+     * previous run indexed but did not finish tagging is tagged first (even
+     * if it was the last one).
+     */
+    const tagging: BuildTagging | null =
+      config.buildTagging && (!progress.completed || progress.untagged_cursor !== null)
+        ? {
+          tagProperty: resolveTagProperty(
+            await notion.getDatabase<NotionDatabase>(databaseId),
+            config.tagProperty,
+            tagLabels(config),
+          ),
+          deadline: startTime + MAX_RUNTIME_MS * 0.85,
+        }
+        : null;
+    if (tagging && progress.untagged_cursor !== null) {
+      const resumed = await tagInterruptedBatch(databaseId, progress.untagged_cursor, tagging);
+      progress.tagging.duplicatesFound += resumed.duplicatesFound;
+      console.log(
+        `Finished tagging an interrupted batch: ${resumed.duplicatesFound} duplicate(s) found, ` +
+          `${resumed.pagesTagged} tagged, ${resumed.tagsQueued} queued`,
+      );
+    }
+
+    // 3. Check if already completed
+    if (progress.completed) {
+      console.log("✅ Index building already completed!");
+      console.log(`Total indexed: ${progress.total_indexed}`);
+
+      /**
+       * 3a. Catch up on pages edited since the previous run, then use the
+       * rest of the run to reconcile the index with Notion
+       * 
+       * Only after completion: while the build is running, every second of
+       * the budget goes to indexing. The sync may take up to three quarters
+       * of the budget, so a burst of edits does not stall reconciliation
+       * (a quarter while a rebuild runs, which gets the rest).
+       */
+      const rebuild = await getRebuild();
+      const report = (await retryWithBackoff(() => currentDriftReport())) ??
+        await retryWithBackoff(() => startDriftReport());
+      const sync = await syncEditedPages(
+        databaseId,
+        report,
+        progress.started_at,
+        startTime + MAX_RUNTIME_MS * (rebuild ? 0.25 : 0.75),
+      );
+      console.log(
+        `Incremental sync: ${sync.pages} edited page(s) read` +
+          (sync.caughtUp ? "" : ", more to read on the next run"),
+      );
+
+      /**
+       * 3b. A rebuild (POST /rebuild) replaces reconciliation until it is
+       * swapped in: the new generation is read from Notion anyway
+       */
+      if (rebuild) {
+        console.log(
+          `Rebuilding generation ${rebuild.generation}: ${rebuild.pagesRead} pages read so far`,
+        );
+        const shadow = await buildShadowIndex(databaseId, rebuild, startTime + MAX_RUNTIME_MS * 0.85);
+        return new Response(
+          `Index building already completed (run ${runId}). ` +
+            `Incremental sync: ${sync.pages} edited page(s)${sync.caughtUp ? "" : " (behind)"}. ` +
+            (shadow.swapped
+              ? `Rebuild complete: generation ${rebuild.generation} is live (${rebuild.totalIndexed} pages)`
+              : `Rebuild of generation ${rebuild.generation}: ${rebuild.pagesRead} pages read so far`),
+          { status: 200, headers: responseHeaders },
+        );
+      }
+
+      await reconcileIndex(databaseId, report, startTime + MAX_RUNTIME_MS);
+      console.log(`Reconciliation ${summarizeDrift(report)}`);
+
+      return new Response(
+        `Index building already completed (run ${runId}). Total indexed: ${progress.total_indexed}. ` +
+          `Incremental sync: ${sync.pages} edited page(s)${sync.caughtUp ? "" : " (behind)"}. ` +
+          `Reconciliation ${summarizeDrift(report)}${report.completedAt ? " (pass complete)" : ""}`,
+        { status: 200, headers: responseHeaders },
+      );
+    }
+
+    console.log(`Previous progress: ${progress.total_indexed} pages indexed`);
+    if (progress.last_cursor) {
+      console.log(`Resuming from cursor: ${progress.last_cursor.substring(0, 20)}...`);
+    }
+
+    const runTagging: BuildTagStats = { duplicatesFound: 0, pagesTagged: 0, tagsQueued: 0 };
+    const taggingSummary = () =>
+      tagging
+        ? `. Duplicates this run: ${runTagging.duplicatesFound} found, ` +
+          `${runTagging.pagesTagged} tagged, ${runTagging.tagsQueued} queued ` +
+          `(build total: ${progress.tagging.duplicatesFound + runTagging.duplicatesFound} found)`
+        : "";
+
+    // 4. Loop multiple batches until near timeout or no more pages
+    let cursor = progress.last_cursor;
+    let totalIndexed = progress.total_indexed;
+    let completed = false;
+    let loopCount = 0;
+
+    while (Date.now() - startTime < MAX_RUNTIME_MS) {
+      loopCount++;
+      console.log(`\n[Batch ${loopCount}] Fetching up to ${BATCH_SIZE} pages...`);
+
+      const batchCursor = cursor;
+      const response = await queryNotionDatabase(databaseId, cursor, BATCH_SIZE);
+      const pages = response.results;
+      cursor = response.next_cursor;
+      completed = !response.has_more;
+
+      console.log(`[Batch ${loopCount}] Fetched ${pages.length} pages`);
+
+      if (pages.length === 0) {
+        console.log(`[Batch ${loopCount}] No pages to process, marking as complete`);
+        await updateProgress({
+          last_cursor: null,
+          total_indexed: totalIndexed,
+          completed: true,
+        });
+        console.log("🎉 INDEX BUILDING COMPLETE!");
+        return new Response(
+          `Index building complete (run ${runId}, empty batch). Total indexed: ${totalIndexed}` +
+            taggingSummary(),
+          { status: 200, headers: responseHeaders },
+        );
+      }
+
+      console.log(`[Batch ${loopCount}] Indexing${tagging ? " and tagging duplicates" : ""}...`);
+      const batch = await processBatch(pages, tagging, LIVE_INDEX_TABLES, (inserted) => ({
+        sql: `
+          UPDATE index_builder_progress
+          SET last_cursor = ?,
+              total_indexed = total_indexed + ${inserted},
+              pages_read = COALESCE(pages_read, 0) + ?,
+              untagged_cursor = ?,
+              last_run_at = datetime('now'),
+              completed = ?
+          WHERE id = 1
+        `,
+        args: [cursor, pages.length, tagging ? batchCursor ?? "" : null, completed ? 1 : 0],
+      }));
+      const indexed = batch.indexed;
+      totalIndexed += indexed;
+      if (tagging) {
+        runTagging.duplicatesFound += batch.tagging.duplicatesFound;
+        runTagging.pagesTagged += batch.tagging.pagesTagged;
+        runTagging.tagsQueued += batch.tagging.tagsQueued;
+      }
+
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(`[Batch ${loopCount}] Processed: ${pages.length} pages`);
+      console.log(`[Batch ${loopCount}] Indexed: ${indexed} (${pages.length - indexed} already existed)`);
+      if (tagging) {
+        console.log(
+          `[Batch ${loopCount}] Duplicates: ${batch.tagging.duplicatesFound} found, ` +
+            `${batch.tagging.pagesTagged} tagged, ${batch.tagging.tagsQueued} queued`,
+        );
+      }
       console.log(`[Batch ${loopCount}] Total indexed so far: ${totalIndexed}`);
       console.log(`[Batch ${loopCount}] Elapsed: ${duration}s`);
 
       if (completed) {
         console.log("\n🎉 INDEX BUILDING COMPLETE! All pages indexed.");
-        console.log("You can now disable this Val if it's scheduled.");
+        console.log("Keep this Val scheduled: later runs reconcile the index with Notion.");
         return new Response(
-          `Index building complete (run ${runId}). Total indexed: ${totalIndexed}`,
+          `Index building complete (run ${runId}). Total indexed: ${totalIndexed}` +
+            taggingSummary(),
           { status: 200, headers: responseHeaders },
         );
       }
@@ -442,7 +2206,8 @@ export default async function indexBuilder(): Promise<Response> {
     }
 
     return new Response(
-      `Index builder partial (run ${runId}). Total indexed so far: ${totalIndexed}`,
+      `Index builder partial (run ${runId}). Total indexed so far: ${totalIndexed}` +
+        taggingSummary(),
       { status: 200, headers: responseHeaders },
     );
   } catch (error: any) {
@@ -0,0 +1,210 @@
+/**
+ * Concurrent-Create Race Test (runs locally, against the deployed webhook)
+ *
+ * Reproduces a CSV import: two pages with the same name are created, then
+ * both webhooks are fired at the same moment. The run fails unless at least
+ * one response reports the other page as a duplicate and both pages end up
+ * tagged. Every round uses a new name and archives its pages afterwards
+ * (the webhook is told, so they also leave the index).
+ *
+ * Turn the database's webhook automation off while this runs: pages created
+ * here would otherwise trigger it too, one after the other, and the race
+ * would never happen.
+ *
+ * Usage:
+ *   NOTION_TOKEN=your_token NOTION_DATABASE_ID=your_db_id \
+ *   DUPLICATE_CHECKER_URL=https://YOUR_USERNAME-RANDOM_ID.web.val.run \
+ *     deno run --allow-net --allow-env race-test-local.ts [rounds]
+ *
+ * Set WEBHOOK_SHARED_SECRET or WEBHOOK_SIGNING_SECRET as in the Val.
+ * The match property must be a title or text property.
+ */
+
+import { loadConfig, tagLabels } from "./shared/config.ts";
+import { createNotionClient } from "./shared/notion-client.ts";
+import type { NotionProperties } from "./shared/properties.ts";
+import {
+  loadWebhookSecrets,
+  SHARED_SECRET_HEADER,
+  SIGNATURE_HEADER,
+  signBody,
+} from "./shared/webhook-auth.ts";
+import {
+  hasTag,
+  type NotionDatabase,
+  resolveTagProperty,
+  type TagPropertySchema,
+  type TagPropertyValue,
+} from "./shared/tag-property.ts";
+
+const config = loadConfig();
+const notion = createNotionClient();
+
+/**
+ * Seconds to wait for the background tagging after the responses
+ *
+ * WHY 60: The webhook tags matches after it replies (see scheduleWrites in
+ * duplicate-checker-deploy.ts); two pages take a few seconds at most.
+ */
+const TAG_WAIT_SECONDS = 60;
+
+interface NotionPage {
+  id: string;
+  properties: NotionProperties;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} environment variable is not set`);
+  }
+  return value;
+}
+
+/**
+ * POST a payload to the webhook with the credentials the Val checks
+ */
+async function sendWebhook(baseUrl: string, payload: unknown): Promise<any> {
+  const rawBody = JSON.stringify(payload);
+  const secrets = loadWebhookSecrets();
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (secrets.sharedSecret) {
+    headers[SHARED_SECRET_HEADER] = secrets.sharedSecret;
+  }
+  if (secrets.signingSecret) {
+    headers[SIGNATURE_HEADER] = await signBody(secrets.signingSecret, rawBody);
+  }
+
+  const response = await fetch(baseUrl.replace(/\/+$/, ""), {
+    method: "POST",
+    headers,
+    body: rawBody,
+  });
+  return await response.json();
+}
+
+/**
+ * Wait until both pages carry the duplicate label
+ *
+ * @returns Pages still untagged when the wait ran out
+ */
+async function waitForTags(
+  pageIds: string[],
+  tagProperty: TagPropertySchema,
+): Promise<string[]> {
+  const deadline = Date.now() + TAG_WAIT_SECONDS * 1000;
+  let untagged = pageIds;
+
+  while (untagged.length > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    const pages = await Promise.all(
+      untagged.map((pageId) => notion.getPage<NotionPage>(pageId)),
+    );
+    untagged = pages
+      .filter((page) =>
+        !hasTag(
+          tagProperty,
+          page.properties[config.tagProperty] as TagPropertyValue | undefined,
+          config.tagLabel,
+        )
+      )
+      .map((page) => page.id);
+  }
+
+  return untagged;
+}
+
+/**
+ * Run one round: create two same-named pages and race their webhooks
+ *
+ * @returns Problems found (empty if the round passed)
+ */
+async function runRound(
+  round: number,
+  databaseId: string,
+  baseUrl: string,
+  nameProperty: (name: string) => Record<string, unknown>,
+  tagProperty: TagPropertySchema,
+): Promise<string[]> {
+  const name = `Race Test ${Date.now()}-${round}`;
+  const properties = { [config.matchProperty]: nameProperty(name) };
+  const pages: NotionPage[] = [];
+  for (let i = 0; i < 2; i++) {
+    pages.push(
+      await notion.request<NotionPage>("POST", "/pages", {
+        parent: { database_id: databaseId },
+        properties,
+      }),
+    );
+  }
+
+  const problems: string[] = [];
+  try {
+    const responses = await Promise.all(
+      pages.map((page) => sendWebhook(baseUrl, { id: page.id, properties: page.properties })),
+    );
+    console.log(
+      `  Round ${round} ("${name}"): ` +
+        responses.map((response) => `duplicate=${response.duplicate}`).join(", "),
+    );
+
+    if (!responses.some((response) => response.duplicate === true)) {
+      problems.push(`round ${round}: neither webhook saw the other page`);
+    }
+    const untagged = await waitForTags(pages.map((page) => page.id), tagProperty);
+    if (untagged.length > 0) {
+      problems.push(`round ${round}: not tagged after ${TAG_WAIT_SECONDS}s: ${untagged.join(", ")}`);
+    }
+  } finally {
+    for (const page of pages) {
+      await notion.archivePage(page.id);
+      await sendWebhook(baseUrl, { id: page.id, archived: true, properties: page.properties });
+    }
+  }
+
+  return problems;
+}
+
+async function main() {
+  const databaseId = requireEnv("NOTION_DATABASE_ID");
+  requireEnv("NOTION_TOKEN");
+  const baseUrl = requireEnv("DUPLICATE_CHECKER_URL");
+  const rounds = Number(Deno.args[0] ?? 10);
+
+  try {
+    const database = await notion.getDatabase<NotionDatabase>(databaseId);
+    const tagProperty = resolveTagProperty(database, config.tagProperty, tagLabels(config));
+
+    const matchType = database.properties[config.matchProperty]?.type;
+    if (matchType !== "title" && matchType !== "rich_text") {
+      throw new Error(
+        `Match property "${config.matchProperty}" has type "${matchType}", expected title or rich_text`,
+      );
+    }
+    const nameProperty = (name: string) => ({
+      [matchType]: [{ type: "text", text: { content: name } }],
+    });
+
+    console.log(`Racing ${rounds} pair(s) of creates against ${baseUrl}`);
+    const problems: string[] = [];
+    for (let round = 1; round <= rounds; round++) {
+      problems.push(
+        ...await runRound(round, databaseId, baseUrl, nameProperty, tagProperty),
+      );
+    }
+
+    if (problems.length > 0) {
+      console.error(`\n❌ ${problems.length} problem(s):`);
+      problems.forEach((problem) => console.error(`  ${problem}`));
+      Deno.exit(1);
+    }
+    console.log(`\n✅ All ${rounds} round(s) detected and tagged both pages`);
+  } catch (error: any) {
+    console.error(`\n❌ Race test failed: ${error.message}`);
+    Deno.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
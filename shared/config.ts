@@ -0,0 +1,309 @@
+/**
+ * Shared Configuration - Property mapping for all entry points
+ *
+ * The webhook handler, index builder and local backfill all read the same
+ * Notion database, so they must agree on which property holds the name and
+ * which property/label marks a page as a duplicate. Keeping the mapping here
+ * lets us point the checker at another CRM database without forking the code.
+ *
+ * Values are resolved in this order (later wins):
+ * 1. Defaults below (the original client deployment)
+ * 2. DUPLICATE_CHECKER_CONFIG - a JSON object with any of the keys below
+ * 3. Individual env vars: MATCH_PROPERTY, TAG_PROPERTY, TAG_LABEL,
+ *    FUZZY_MATCHING, FUZZY_THRESHOLD, POSSIBLE_DUPLICATE_LABEL,
+ *    STRIP_LEGAL_FORMS, TRANSLIT_MATCHING, PHONE_PROPERTY, EMAIL_PROPERTY,
+ *    TAX_ID_PROPERTY, DEFAULT_PHONE_COUNTRY_CODE, NOT_DUPLICATE_LABEL,
+ *    DUPLICATE_RELATION_PROPERTY, MERGE_RULES (JSON object),
+ *    REDELIVERY_WINDOW_SECONDS, BUILD_TAGGING (index builder only,
+ *    default true)
+ *
+ * Webhook secrets are not part of this config: they come from env vars only
+ * (shared/webhook-auth.ts). WEBHOOK_SHARED_SECRET or WEBHOOK_SIGNING_SECRET
+ * is required for the routes that change data (POST/DELETE /exceptions,
+ * POST /groups, /merge, /operations/retry, and the index builder's /reset
+ * and /rebuild), which answer 403 without one.
+ */
+
+/**
+ * How the merge workflow combines a property across a duplicate group
+ *
+ * - fill:   copy the first non-empty value (oldest page first) into an empty
+ *           field on the canonical page (the default)
+ * - newest: take the value from the most recently edited page that has one
+ * - union:  combine multi_select, relation, people and files values
+ * - concat: join distinct rich_text values, one per line
+ * - skip:   never change this property
+ */
+export type MergeRule = "fill" | "newest" | "union" | "concat" | "skip";
+
+const MERGE_RULES: MergeRule[] = ["fill", "newest", "union", "concat", "skip"];
+
+export interface DuplicateCheckerConfig {
+  /** Property whose value is compared to find duplicates (e.g. "клиент") */
+  matchProperty: string;
+  /** Property that receives the duplicate marker (e.g. "Duplicate Flag") */
+  tagProperty: string;
+  /** Label written to the tag property (e.g. "Duplicate") */
+  tagLabel: string;
+  /** Opt-in trigram similarity matching on top of exact matching */
+  fuzzyMatching: boolean;
+  /** Minimum similarity (0-1) for a fuzzy match */
+  fuzzyThreshold: number;
+  /** Label written for fuzzy-only matches (e.g. "Possible Duplicate") */
+  possibleDuplicateLabel: string;
+  /** Drop legal-form words (ООО, ИП, LLC, ...) when normalizing names */
+  stripLegalForms: boolean;
+  /** Opt-in matching of Cyrillic and Latin spellings of the same name */
+  transliterationMatching: boolean;
+  /** Property holding a phone number used as a match key (null = unused) */
+  phoneProperty: string | null;
+  /** Property holding an email address used as a match key (null = unused) */
+  emailProperty: string | null;
+  /** Property holding an INN/tax ID used as a match key (null = unused) */
+  taxIdProperty: string | null;
+  /** Country code for phone numbers written without one (e.g. "7") */
+  defaultPhoneCountryCode: string;
+  /** Tag value reviewers set to confirm a page is not a duplicate */
+  notDuplicateLabel: string;
+  /** Self-relation linking duplicate group members (null = unused) */
+  relationProperty: string | null;
+  /** Per-property merge rules; properties not listed use "fill" */
+  mergeRules: Record<string, MergeRule>;
+  /** Redeliveries within this many seconds replay the stored result (0 = off) */
+  redeliveryWindowSeconds: number;
+  /** Index builder tags the duplicates it finds while building (off = index only) */
+  buildTagging: boolean;
+}
+
+const DEFAULT_CONFIG: DuplicateCheckerConfig = {
+  matchProperty: "клиент",
+  tagProperty: "Duplicate Flag",
+  tagLabel: "Duplicate",
+  fuzzyMatching: false,
+  fuzzyThreshold: 0.65,
+  possibleDuplicateLabel: "Possible Duplicate",
+  stripLegalForms: false,
+  transliterationMatching: false,
+  phoneProperty: null,
+  emailProperty: null,
+  taxIdProperty: null,
+  defaultPhoneCountryCode: "7",
+  notDuplicateLabel: "Not Duplicate",
+  relationProperty: null,
+  mergeRules: {},
+  redeliveryWindowSeconds: 600,
+  buildTagging: true,
+};
+
+/**
+ * Parse the optional DUPLICATE_CHECKER_CONFIG JSON blob
+ *
+ * WHY throw on bad JSON: A typo here would silently fall back to the defaults
+ * and tag the wrong property, so we fail at startup instead.
+ */
+function readJsonConfig(): Partial<DuplicateCheckerConfig> {
+  const raw = Deno.env.get("DUPLICATE_CHECKER_CONFIG");
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(
+      `DUPLICATE_CHECKER_CONFIG is not valid JSON: ${error.message}`,
+    );
+  }
+}
+
+function readString(
+  envName: string,
+  jsonValue: string | undefined,
+  fallback: string,
+): string {
+  const value = Deno.env.get(envName) ?? jsonValue ?? fallback;
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${envName} must be a non-empty string`);
+  }
+  return value;
+}
+
+function readOptionalString(
+  envName: string,
+  jsonValue: string | null | undefined,
+  fallback: string | null,
+): string | null {
+  const value = Deno.env.get(envName) ?? jsonValue ?? fallback;
+  return typeof value === "string" && value.trim() !== "" ? value : null;
+}
+
+function readBoolean(
+  envName: string,
+  jsonValue: boolean | undefined,
+  fallback: boolean,
+): boolean {
+  const raw = Deno.env.get(envName);
+  if (raw === undefined) {
+    return jsonValue ?? fallback;
+  }
+  return ["1", "true", "yes", "on"].includes(raw.trim().toLowerCase());
+}
+
+function readNumber(
+  envName: string,
+  jsonValue: number | undefined,
+  fallback: number,
+): number {
+  const raw = Deno.env.get(envName);
+  const value = raw !== undefined ? Number(raw) : jsonValue ?? fallback;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${envName} must be a number (got "${raw ?? jsonValue}")`);
+  }
+  return value;
+}
+
+function readMergeRules(
+  jsonValue: Record<string, MergeRule> | undefined,
+): Record<string, MergeRule> {
+  const raw = Deno.env.get("MERGE_RULES");
+  let rules: unknown = jsonValue ?? DEFAULT_CONFIG.mergeRules;
+  if (raw !== undefined) {
+    try {
+      rules = JSON.parse(raw);
+    } catch (error: any) {
+      throw new Error(`MERGE_RULES is not valid JSON: ${error.message}`);
+    }
+  }
+
+  if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+    throw new Error('MERGE_RULES must be an object like {"Phone": "union"}');
+  }
+  for (const [property, rule] of Object.entries(rules)) {
+    if (!MERGE_RULES.includes(rule as MergeRule)) {
+      throw new Error(
+        `MERGE_RULES: unknown rule "${rule}" for "${property}" ` +
+          `(expected ${MERGE_RULES.join(", ")})`,
+      );
+    }
+  }
+  return rules as Record<string, MergeRule>;
+}
+
+/**
+ * Resolve the configuration for the current process
+ */
+export function loadConfig(): DuplicateCheckerConfig {
+  const json = readJsonConfig();
+
+  const config: DuplicateCheckerConfig = {
+    matchProperty: readString(
+      "MATCH_PROPERTY",
+      json.matchProperty,
+      DEFAULT_CONFIG.matchProperty,
+    ),
+    tagProperty: readString(
+      "TAG_PROPERTY",
+      json.tagProperty,
+      DEFAULT_CONFIG.tagProperty,
+    ),
+    tagLabel: readString("TAG_LABEL", json.tagLabel, DEFAULT_CONFIG.tagLabel),
+    fuzzyMatching: readBoolean(
+      "FUZZY_MATCHING",
+      json.fuzzyMatching,
+      DEFAULT_CONFIG.fuzzyMatching,
+    ),
+    fuzzyThreshold: readNumber(
+      "FUZZY_THRESHOLD",
+      json.fuzzyThreshold,
+      DEFAULT_CONFIG.fuzzyThreshold,
+    ),
+    possibleDuplicateLabel: readString(
+      "POSSIBLE_DUPLICATE_LABEL",
+      json.possibleDuplicateLabel,
+      DEFAULT_CONFIG.possibleDuplicateLabel,
+    ),
+    stripLegalForms: readBoolean(
+      "STRIP_LEGAL_FORMS",
+      json.stripLegalForms,
+      DEFAULT_CONFIG.stripLegalForms,
+    ),
+    transliterationMatching: readBoolean(
+      "TRANSLIT_MATCHING",
+      json.transliterationMatching,
+      DEFAULT_CONFIG.transliterationMatching,
+    ),
+    phoneProperty: readOptionalString(
+      "PHONE_PROPERTY",
+      json.phoneProperty,
+      DEFAULT_CONFIG.phoneProperty,
+    ),
+    emailProperty: readOptionalString(
+      "EMAIL_PROPERTY",
+      json.emailProperty,
+      DEFAULT_CONFIG.emailProperty,
+    ),
+    taxIdProperty: readOptionalString(
+      "TAX_ID_PROPERTY",
+      json.taxIdProperty,
+      DEFAULT_CONFIG.taxIdProperty,
+    ),
+    defaultPhoneCountryCode: readString(
+      "DEFAULT_PHONE_COUNTRY_CODE",
+      json.defaultPhoneCountryCode,
+      DEFAULT_CONFIG.defaultPhoneCountryCode,
+    ).replace(/\D/g, ""),
+    notDuplicateLabel: readString(
+      "NOT_DUPLICATE_LABEL",
+      json.notDuplicateLabel,
+      DEFAULT_CONFIG.notDuplicateLabel,
+    ),
+    relationProperty: readOptionalString(
+      "DUPLICATE_RELATION_PROPERTY",
+      json.relationProperty,
+      DEFAULT_CONFIG.relationProperty,
+    ),
+    mergeRules: readMergeRules(json.mergeRules),
+    redeliveryWindowSeconds: readNumber(
+      "REDELIVERY_WINDOW_SECONDS",
+      json.redeliveryWindowSeconds,
+      DEFAULT_CONFIG.redeliveryWindowSeconds,
+    ),
+    buildTagging: readBoolean(
+      "BUILD_TAGGING",
+      json.buildTagging,
+      DEFAULT_CONFIG.buildTagging,
+    ),
+  };
+
+  if (config.fuzzyThreshold <= 0 || config.fuzzyThreshold > 1) {
+    throw new Error("FUZZY_THRESHOLD must be between 0 (exclusive) and 1");
+  }
+  if (config.redeliveryWindowSeconds < 0) {
+    throw new Error("REDELIVERY_WINDOW_SECONDS must not be negative");
+  }
+
+  return config;
+}
+
+/**
+ * Labels the scripts may write, for validating status options up front
+ *
+ * Fuzzy and transliteration matches are lossy, so both use the
+ * possible-duplicate label.
+ */
+export function tagLabels(config: DuplicateCheckerConfig): string[] {
+  return config.fuzzyMatching || config.transliterationMatching
+    ? [config.tagLabel, config.possibleDuplicateLabel]
+    : [config.tagLabel];
+}
+
+/**
+ * Every label the scripts manage, whether or not it is currently written
+ *
+ * WHY separate from tagLabels: When a page stops being a duplicate we clear
+ * both labels, including a "Possible Duplicate" left over from before fuzzy
+ * matching was switched off.
+ */
+export function managedLabels(config: DuplicateCheckerConfig): string[] {
+  return [config.tagLabel, config.possibleDuplicateLabel];
+}
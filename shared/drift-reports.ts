@@ -0,0 +1,171 @@
+/**
+ * Drift Reports - What each reconciliation pass found and repaired
+ *
+ * WHY: The webhook misses pages now and then (a failed automation, a CSV
+ * import with automations off, a bulk delete). The index builder's
+ * reconciliation walks the whole database in passes and fixes the index;
+ * each pass keeps a report in drift_reports (shared/schema.ts) so "how far
+ * had the index drifted, and what was fixed?" has an answer. Counts are
+ * complete, examples are capped per kind.
+ *
+ * Drift kinds:
+ * - added:       in Notion, missing from the index
+ * - renamed:     indexed under a stale name
+ * - keysUpdated: stale phone/email/tax ID keys
+ * - removed:     indexed, but archived, trashed or moved out of the database
+ * - unreachable: indexed, but the API answers 404 (kept, see the index builder)
+ */
+
+import { sqlite } from "https://esm.town/v/std/sqlite";
+
+/**
+ * Examples kept per drift kind
+ */
+const MAX_EXAMPLES = 20;
+
+export interface DriftExamples {
+  added: string[];
+  renamed: Array<{ pageId: string; from: string; to: string }>;
+  keysUpdated: string[];
+  removed: string[];
+  unreachable: string[];
+}
+
+export interface DriftReport {
+  passId: number;
+  startedAt: string;
+  /** null while the pass is running */
+  completedAt: string | null;
+  pagesScanned: number;
+  added: number;
+  renamed: number;
+  keysUpdated: number;
+  removed: number;
+  unreachable: number;
+  /** Pages queued in pending_operations to be re-tagged */
+  retagsQueued: number;
+  examples: DriftExamples;
+}
+
+const REPORT_COLUMNS =
+  "pass_id, started_at, completed_at, pages_scanned, added, renamed, keys_updated, " +
+  "removed, unreachable, retags_queued, examples";
+
+function emptyExamples(): DriftExamples {
+  return { added: [], renamed: [], keysUpdated: [], removed: [], unreachable: [] };
+}
+
+function toReport(row: any): DriftReport {
+  // Val.town SQLite returns rows as arrays, not objects
+  return {
+    passId: Number(row[0]),
+    startedAt: row[1] as string,
+    completedAt: row[2] as string | null,
+    pagesScanned: Number(row[3]),
+    added: Number(row[4]),
+    renamed: Number(row[5]),
+    keysUpdated: Number(row[6]),
+    removed: Number(row[7]),
+    unreachable: Number(row[8]),
+    retagsQueued: Number(row[9]),
+    examples: { ...emptyExamples(), ...(row[10] ? JSON.parse(row[10] as string) : {}) },
+  };
+}
+
+/**
+ * The report of the pass in progress, if any
+ */
+export async function currentDriftReport(): Promise<DriftReport | null> {
+  const result = await sqlite.execute({
+    sql: `
+      SELECT ${REPORT_COLUMNS} FROM drift_reports
+      WHERE completed_at IS NULL
+      ORDER BY pass_id DESC
+      LIMIT 1
+    `,
+    args: [],
+  });
+
+  return result.rows.length > 0 ? toReport(result.rows[0]) : null;
+}
+
+/**
+ * Open the report of a new pass
+ */
+export async function startDriftReport(): Promise<DriftReport> {
+  const result = await sqlite.execute({
+    sql: `INSERT INTO drift_reports (examples) VALUES (?) RETURNING ${REPORT_COLUMNS}`,
+    args: [JSON.stringify(emptyExamples())],
+  });
+
+  return toReport(result.rows[0]);
+}
+
+/**
+ * Count one drifted page in the report (in memory; see saveDriftReport)
+ */
+export function recordDrift<K extends keyof DriftExamples>(
+  report: DriftReport,
+  kind: K,
+  example: DriftExamples[K][number],
+): void {
+  report[kind]++;
+  if (report.examples[kind].length < MAX_EXAMPLES) {
+    (report.examples[kind] as Array<DriftExamples[K][number]>).push(example);
+  }
+}
+
+/**
+ * Write the report's counts and examples
+ *
+ * @param completed - Close the pass (its report no longer changes)
+ */
+export async function saveDriftReport(report: DriftReport, completed = false): Promise<void> {
+  if (completed) {
+    // Same format as SQLite's datetime('now')
+    report.completedAt = new Date().toISOString().replace("T", " ").slice(0, 19);
+  }
+  await sqlite.execute({
+    sql: `
+      UPDATE drift_reports
+      SET pages_scanned = ?, added = ?, renamed = ?, keys_updated = ?, removed = ?,
+          unreachable = ?, retags_queued = ?, examples = ?, completed_at = ?
+      WHERE pass_id = ?
+    `,
+    args: [
+      report.pagesScanned,
+      report.added,
+      report.renamed,
+      report.keysUpdated,
+      report.removed,
+      report.unreachable,
+      report.retagsQueued,
+      JSON.stringify(report.examples),
+      report.completedAt,
+      report.passId,
+    ],
+  });
+}
+
+/**
+ * Recent reports, newest first (the running pass included)
+ *
+ * @param limit - At most 100 (default 10)
+ */
+export async function listDriftReports(limit = 10): Promise<DriftReport[]> {
+  const result = await sqlite.execute({
+    sql: `SELECT ${REPORT_COLUMNS} FROM drift_reports ORDER BY pass_id DESC LIMIT ?`,
+    args: [Math.min(Math.max(Math.floor(limit), 1), 100)],
+  });
+
+  return result.rows.map(toReport);
+}
+
+/**
+ * One-line summary for logs and the index builder's response
+ */
+export function summarizeDrift(report: DriftReport): string {
+  return `pass ${report.passId}: scanned ${report.pagesScanned}, added ${report.added}, ` +
+    `renamed ${report.renamed}, keys updated ${report.keysUpdated}, removed ${report.removed}, ` +
+    `unreachable ${report.unreachable}, re-tags queued ${report.retagsQueued}`;
+}
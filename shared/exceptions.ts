@@ -0,0 +1,140 @@
+/**
+ * "Not a Duplicate" Exceptions - Reviewed false positives stay resolved
+ *
+ * WHY: Two same-named clients are sometimes different people. Once a
+ * reviewer confirms that, neither the webhook nor the index builder nor the
+ * backfill may tag the pair again. Exceptions are stored as page pairs in
+ * the distinct_pairs table (shared/schema.ts); marking a group records
+ * every pair within it.
+ */
+
+import { sqlite } from "https://esm.town/v/std/sqlite";
+
+/**
+ * Where an exception came from: the tag property in Notion or the HTTP API
+ */
+export type ExceptionSource = "notion" | "api";
+
+export interface DistinctPair {
+  pageA: string;
+  pageB: string;
+  source: ExceptionSource;
+  createdAt: string;
+}
+
+/**
+ * Order a pair so it is stored (and looked up) once
+ */
+function orderPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+/**
+ * Every pair within a group of pages
+ */
+export function pairsWithin(pageIds: string[]): Array<[string, string]> {
+  const unique = [...new Set(pageIds)];
+  const pairs: Array<[string, string]> = [];
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      pairs.push(orderPair(unique[i], unique[j]));
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Record pairs as confirmed distinct (idempotent)
+ *
+ * @returns Number of pairs that were not recorded before
+ */
+export async function recordDistinctPairs(
+  pairs: Array<[string, string]>,
+  source: ExceptionSource,
+): Promise<number> {
+  if (pairs.length === 0) {
+    return 0;
+  }
+
+  const results = await sqlite.batch(
+    pairs.map(([a, b]) => {
+      const [pageA, pageB] = orderPair(a, b);
+      return {
+        sql: "INSERT OR IGNORE INTO distinct_pairs (page_a, page_b, source) VALUES (?, ?, ?)",
+        args: [pageA, pageB, source],
+      };
+    }),
+    "write",
+  );
+
+  return results.reduce((sum: number, result: any) => sum + (result.rowsAffected ?? 0), 0);
+}
+
+/**
+ * Withdraw exceptions, so the pairs can be tagged again
+ *
+ * @returns Number of pairs removed
+ */
+export async function removeDistinctPairs(
+  pairs: Array<[string, string]>,
+): Promise<number> {
+  if (pairs.length === 0) {
+    return 0;
+  }
+
+  const results = await sqlite.batch(
+    pairs.map(([a, b]) => ({
+      sql: "DELETE FROM distinct_pairs WHERE page_a = ? AND page_b = ?",
+      args: orderPair(a, b),
+    })),
+    "write",
+  );
+
+  return results.reduce((sum: number, result: any) => sum + (result.rowsAffected ?? 0), 0);
+}
+
+/**
+ * Pages a reviewer confirmed as distinct from the given page
+ */
+export async function findDistinctPartners(pageId: string): Promise<Set<string>> {
+  const result = await sqlite.execute({
+    sql: `
+      SELECT page_b FROM distinct_pairs WHERE page_a = ?
+      UNION
+      SELECT page_a FROM distinct_pairs WHERE page_b = ?
+    `,
+    args: [pageId, pageId],
+  });
+
+  return new Set(result.rows.map((row: any) => row[0] as string));
+}
+
+/**
+ * List recorded exceptions, optionally only those involving one page
+ */
+export async function listDistinctPairs(pageId?: string): Promise<DistinctPair[]> {
+  const result = await sqlite.execute(
+    pageId
+      ? {
+        sql: `
+          SELECT page_a, page_b, source, created_at FROM distinct_pairs
+          WHERE page_a = ? OR page_b = ?
+          ORDER BY created_at
+        `,
+        args: [pageId, pageId],
+      }
+      : {
+        sql: "SELECT page_a, page_b, source, created_at FROM distinct_pairs ORDER BY created_at",
+        args: [],
+      },
+  );
+
+  return result.rows.map((row: any) => ({
+    pageA: row[0] as string,
+    pageB: row[1] as string,
+    source: row[2] as ExceptionSource,
+    createdAt: row[3] as string,
+  }));
+}
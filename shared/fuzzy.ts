@@ -0,0 +1,129 @@
+/**
+ * Fuzzy Matching - Trigram similarity for "Possible Duplicate" detection
+ *
+ * WHY trigrams: A name's trigrams can be stored in an indexed SQLite table,
+ * so candidates are found with an index lookup instead of scanning all 150k
+ * names. Similarity is the Dice coefficient over the trigram sets, which
+ * catches typos ("иванов иван" vs "иванов иваан" = 0.90) and truncations
+ * ("acme corp" vs "acme corporation" = 0.67).
+ *
+ * All functions expect names that are already normalized.
+ */
+
+/**
+ * Upper bound on candidates fetched from SQLite per lookup
+ *
+ * WHY: Keeps the webhook fast for very short/common names whose trigrams
+ * overlap with thousands of rows. Candidates are ordered by shared trigram
+ * count, so the best matches survive the cut.
+ */
+export const FUZZY_CANDIDATE_LIMIT = 200;
+
+/**
+ * Split a normalized name into its set of character trigrams
+ *
+ * Padding ("  name ") gives word starts extra weight, so names that share a
+ * prefix score higher than names that merely share an inner fragment.
+ * Array.from splits by code point so Cyrillic and emoji are not cut in half.
+ */
+export function trigrams(name: string): string[] {
+  const chars = Array.from(`  ${name} `);
+  const result = new Set<string>();
+
+  for (let i = 0; i + 3 <= chars.length; i++) {
+    result.add(chars.slice(i, i + 3).join(""));
+  }
+
+  return [...result];
+}
+
+/**
+ * Dice similarity between two trigram sets (0 = nothing shared, 1 = identical)
+ */
+export function trigramSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) {
+    return 1;
+  }
+
+  const setB = new Set(b);
+  let shared = 0;
+  for (const gram of a) {
+    if (setB.has(gram)) {
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * Minimum number of shared trigrams any match of `count` trigrams needs
+ *
+ * From Dice >= t and shared <= |B|: shared >= t * |A| / (2 - t). Used as
+ * the HAVING bound in SQL and for prefix filtering below.
+ */
+export function minSharedTrigrams(count: number, threshold: number): number {
+  return Math.max(1, Math.ceil((threshold * count) / (2 - threshold)));
+}
+
+/**
+ * Find all pairs of names whose similarity meets the threshold
+ *
+ * WHY prefix filtering: Comparing 150k names pairwise is ~10^10 comparisons.
+ * Instead each name is indexed only by its rarest trigrams (a prefix long
+ * enough that any qualifying pair must share at least one of them), so
+ * common trigrams like "ова" never produce huge candidate lists.
+ *
+ * @param names - Distinct normalized names
+ * @param threshold - Minimum similarity (0-1)
+ * @returns Index pairs into `names` with their similarity
+ */
+export function findSimilarPairs(
+  names: string[],
+  threshold: number,
+): Array<{ a: number; b: number; similarity: number }> {
+  const grams = names.map(trigrams);
+
+  // Global trigram frequency determines the "rarest first" ordering
+  const frequency = new Map<string, number>();
+  for (const set of grams) {
+    for (const gram of set) {
+      frequency.set(gram, (frequency.get(gram) ?? 0) + 1);
+    }
+  }
+
+  const postings = new Map<string, number[]>();
+  const pairs: Array<{ a: number; b: number; similarity: number }> = [];
+
+  for (let i = 0; i < names.length; i++) {
+    const sorted = [...grams[i]].sort((x, y) =>
+      (frequency.get(x)! - frequency.get(y)!) || (x < y ? -1 : x > y ? 1 : 0)
+    );
+    const prefixLength = sorted.length -
+      minSharedTrigrams(sorted.length, threshold) + 1;
+    const prefix = sorted.slice(0, Math.max(1, prefixLength));
+
+    const candidates = new Set<number>();
+    for (const gram of prefix) {
+      for (const j of postings.get(gram) ?? []) {
+        candidates.add(j);
+      }
+    }
+
+    for (const j of candidates) {
+      const similarity = trigramSimilarity(grams[i], grams[j]);
+      if (similarity >= threshold) {
+        pairs.push({ a: j, b: i, similarity });
+      }
+    }
+
+    for (const gram of prefix) {
+      if (!postings.has(gram)) {
+        postings.set(gram, []);
+      }
+      postings.get(gram)!.push(i);
+    }
+  }
+
+  return pairs;
+}
@@ -0,0 +1,278 @@
+/**
+ * Duplicate Groups - Persistent groups of exact duplicates
+ *
+ * WHY: Tags say "this page has a twin"; groups say which pages belong
+ * together and which one is the primary record (the oldest). A group is the
+ * set of pages connected by exact matches (same normalized name or a shared
+ * match key). Fuzzy and transliteration matches never form groups - they
+ * need a human decision first.
+ *
+ * Only SQLite is touched here. Callers apply the resulting "Duplicate of"
+ * relations in Notion (shared/relations.ts).
+ */
+
+import { sqlite } from "https://esm.town/v/std/sqlite";
+import type { DuplicateCheckerConfig } from "./config.ts";
+import { findAllMatches, getIndexedPage } from "./matching.ts";
+
+export interface DuplicateGroup {
+  groupId: number;
+  primaryPageId: string;
+  /** Members in the order they joined, primary included */
+  members: string[];
+}
+
+/**
+ * Result of taking a page out of its group
+ */
+export interface GroupSplit {
+  /** Groups formed by the remaining members (usually one) */
+  groups: DuplicateGroup[];
+  /** Pages no longer in any group, including the page that left */
+  ungrouped: string[];
+}
+
+/**
+ * Load a group by ID
+ */
+export async function getGroup(groupId: number): Promise<DuplicateGroup | null> {
+  const groupResult = await sqlite.execute({
+    sql: "SELECT primary_page_id FROM duplicate_groups WHERE group_id = ?",
+    args: [groupId],
+  });
+  if (groupResult.rows.length === 0) {
+    return null;
+  }
+
+  const memberResult = await sqlite.execute({
+    sql: `
+      SELECT page_id FROM duplicate_group_members
+      WHERE group_id = ?
+      ORDER BY added_at, page_id
+    `,
+    args: [groupId],
+  });
+
+  return {
+    groupId,
+    primaryPageId: groupResult.rows[0][0] as string,
+    members: memberResult.rows.map((row: any) => row[0] as string),
+  };
+}
+
+/**
+ * Load the group a page belongs to
+ *
+ * @returns null if the page is in no group
+ */
+export async function getGroupOf(pageId: string): Promise<DuplicateGroup | null> {
+  const result = await sqlite.execute({
+    sql: "SELECT group_id FROM duplicate_group_members WHERE page_id = ?",
+    args: [pageId],
+  });
+
+  return result.rows.length === 0 ? null : await getGroup(Number(result.rows[0][0]));
+}
+
+/**
+ * Pick the page that was indexed first (the primary of a new group)
+ *
+ * Pages missing from the index (e.g. recorded by the backfill before the
+ * index builder ran) fall back to the order given.
+ */
+async function oldestIndexed(pageIds: string[]): Promise<string> {
+  const result = await sqlite.execute({
+    sql: `
+      SELECT notion_page_id FROM name_index
+      WHERE notion_page_id IN (${pageIds.map(() => "?").join(", ")})
+      ORDER BY id
+      LIMIT 1
+    `,
+    args: pageIds,
+  });
+
+  return result.rows.length > 0 ? result.rows[0][0] as string : pageIds[0];
+}
+
+/**
+ * Create a group and add members to it
+ */
+async function createGroup(
+  pageIds: string[],
+  primaryPageId: string,
+): Promise<number> {
+  const result = await sqlite.execute({
+    sql: "INSERT INTO duplicate_groups (primary_page_id) VALUES (?) RETURNING group_id",
+    args: [primaryPageId],
+  });
+  const groupId = Number(result.rows[0][0]);
+
+  await sqlite.execute({
+    sql: `INSERT OR REPLACE INTO duplicate_group_members (page_id, group_id) VALUES ${
+      pageIds.map(() => "(?, ?)").join(", ")
+    }`,
+    args: pageIds.flatMap((pageId) => [pageId, groupId]),
+  });
+
+  return groupId;
+}
+
+/**
+ * Put pages that are exact duplicates of each other into one group
+ *
+ * If some pages already belong to groups, those groups are merged into the
+ * oldest one, which keeps its primary record (unless one is given).
+ *
+ * @param pageIds - Pages to group (at least two)
+ * @param primaryPageId - Primary record for the group; defaults to the
+ *   existing primary, or the page indexed first for a new group
+ * @returns The group after the change
+ */
+export async function joinGroup(
+  pageIds: string[],
+  primaryPageId?: string,
+): Promise<DuplicateGroup> {
+  const ids = [...new Set(pageIds)];
+
+  const existing = await sqlite.execute({
+    sql: `
+      SELECT DISTINCT group_id FROM duplicate_group_members
+      WHERE page_id IN (${ids.map(() => "?").join(", ")})
+      ORDER BY group_id
+    `,
+    args: ids,
+  });
+  const groupIds = existing.rows.map((row: any) => Number(row[0]));
+
+  if (groupIds.length === 0) {
+    const groupId = await createGroup(ids, primaryPageId ?? await oldestIndexed(ids));
+    return (await getGroup(groupId))!;
+  }
+
+  const [groupId, ...mergedIds] = groupIds;
+  const mergedPlaceholders = mergedIds.map(() => "?").join(", ");
+
+  await sqlite.batch([
+    ...(mergedIds.length > 0
+      ? [
+        {
+          sql: `UPDATE duplicate_group_members SET group_id = ? WHERE group_id IN (${mergedPlaceholders})`,
+          args: [groupId, ...mergedIds],
+        },
+        {
+          sql: `DELETE FROM duplicate_groups WHERE group_id IN (${mergedPlaceholders})`,
+          args: mergedIds,
+        },
+      ]
+      : []),
+    {
+      sql: `INSERT OR IGNORE INTO duplicate_group_members (page_id, group_id) VALUES ${
+        ids.map(() => "(?, ?)").join(", ")
+      }`,
+      args: ids.flatMap((pageId) => [pageId, groupId]),
+    },
+    {
+      sql: `
+        UPDATE duplicate_groups
+        SET primary_page_id = COALESCE(?, primary_page_id), updated_at = datetime('now')
+        WHERE group_id = ?
+      `,
+      args: [primaryPageId ?? null, groupId],
+    },
+  ], "write");
+
+  return (await getGroup(groupId))!;
+}
+
+/**
+ * Split pages into sets connected by exact matches among themselves
+ */
+async function connectedComponents(
+  pageIds: string[],
+  config: DuplicateCheckerConfig,
+): Promise<string[][]> {
+  const parent = new Map(pageIds.map((id) => [id, id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) {
+      id = parent.get(id)!;
+    }
+    return id;
+  };
+
+  for (const pageId of pageIds) {
+    const indexed = await getIndexedPage(pageId);
+    if (!indexed) {
+      continue; // Not indexed (archived): stays on its own
+    }
+
+    const matches = await findAllMatches(
+      pageId,
+      indexed.normalizedName,
+      indexed.keys,
+      config,
+    );
+    for (const other of matches.otherDuplicates) {
+      if (parent.has(other)) {
+        parent.set(find(other), find(pageId));
+      }
+    }
+  }
+
+  const components = new Map<string, string[]>();
+  for (const pageId of pageIds) {
+    const root = find(pageId);
+    components.set(root, [...(components.get(root) ?? []), pageId]);
+  }
+
+  return [...components.values()];
+}
+
+/**
+ * Take a page out of its group (renamed, archived or no longer a duplicate)
+ *
+ * WHY re-split: The remaining members may only have been connected through
+ * this page (A shares a phone with B, B shares a name with C), so they are
+ * regrouped by their own exact matches into new groups. The part holding
+ * the primary record keeps it as primary; a member left alone is ungrouped.
+ *
+ * @returns Groups of the remaining members, and pages left ungrouped
+ */
+export async function leaveGroup(
+  pageId: string,
+  config: DuplicateCheckerConfig,
+): Promise<GroupSplit> {
+  const group = await getGroupOf(pageId);
+  if (!group) {
+    return { groups: [], ungrouped: [] };
+  }
+
+  const remaining = group.members.filter((id) => id !== pageId);
+  const components = await connectedComponents(remaining, config);
+
+  await sqlite.batch([
+    {
+      sql: "DELETE FROM duplicate_group_members WHERE group_id = ?",
+      args: [group.groupId],
+    },
+    {
+      sql: "DELETE FROM duplicate_groups WHERE group_id = ?",
+      args: [group.groupId],
+    },
+  ], "write");
+
+  const split: GroupSplit = { groups: [], ungrouped: [pageId] };
+  for (const component of components) {
+    if (component.length < 2) {
+      split.ungrouped.push(...component);
+      continue;
+    }
+
+    const primaryPageId = component.includes(group.primaryPageId)
+      ? group.primaryPageId
+      : await oldestIndexed(component);
+    const groupId = await createGroup(component, primaryPageId);
+    split.groups.push((await getGroup(groupId))!);
+  }
+
+  return split;
+}
@@ -0,0 +1,146 @@
+/**
+ * Match Keys - Phone, email and tax ID as additional duplicate keys
+ *
+ * WHY: Name alone misses the same company under two spellings, while a
+ * phone number, email address or INN identifies a client much more
+ * reliably. Each configured property is normalized into a canonical key and
+ * stored in the match_keys table next to name_index.
+ */
+
+import type { DuplicateCheckerConfig } from "./config.ts";
+import { type NotionProperties, propertyToString } from "./properties.ts";
+
+export type MatchKeyType = "phone" | "email" | "taxId";
+
+export interface MatchKey {
+  type: MatchKeyType;
+  value: string;
+}
+
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+/**
+ * Normalize a phone number to E.164 ("+79161234567")
+ *
+ * Russian numbers are commonly written with a trunk prefix ("8 916 ...") or
+ * without a country code ("916 ..."); both get the default country code.
+ *
+ * @returns E.164 number, or null if it has too few digits to be a phone
+ */
+export function normalizePhone(
+  raw: string,
+  defaultCountryCode: string,
+): string | null {
+  const hasPlus = raw.trim().startsWith("+");
+  let digits = raw.replace(/\D/g, "");
+
+  if (digits.startsWith("00")) {
+    digits = digits.slice(2); // International prefix: 00 44 ... → 44 ...
+  } else if (!hasPlus) {
+    if (defaultCountryCode === "7" && digits.length === 11 && digits.startsWith("8")) {
+      digits = `7${digits.slice(1)}`;
+    } else if (digits.length === 10) {
+      digits = `${defaultCountryCode}${digits}`;
+    }
+  }
+
+  // E.164 allows at most 15 digits; fewer than 8 is an extension or typo
+  if (digits.length < 8 || digits.length > 15) {
+    return null;
+  }
+
+  return `+${digits}`;
+}
+
+/**
+ * Normalize an email address
+ *
+ * Lowercases, strips "+tag" suffixes and, for Gmail, dots in the local part
+ * ("Ivan.Petrov+crm@GMail.com" → "ivanpetrov@gmail.com").
+ *
+ * @returns Canonical address, or null if it is not an email
+ */
+export function normalizeEmail(raw: string): string | null {
+  const email = raw.trim().toLowerCase();
+  const at = email.lastIndexOf("@");
+  if (at <= 0 || at === email.length - 1) {
+    return null;
+  }
+
+  let local = email.slice(0, at).split("+")[0];
+  let domain = email.slice(at + 1);
+
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, "");
+    domain = "gmail.com";
+  }
+
+  return local ? `${local}@${domain}` : null;
+}
+
+/**
+ * Normalize a tax ID (INN or similar)
+ *
+ * Keeps letters and digits only, so "77-07 083893" and "7707083893" match.
+ *
+ * @returns Canonical ID, or null if too short to be meaningful
+ */
+export function normalizeTaxId(raw: string): string | null {
+  const id = raw.replace(/[^\p{L}\p{N}]/gu, "").toUpperCase();
+  return id.length >= 5 ? id : null;
+}
+
+/**
+ * Extract every configured match key from a page's properties
+ *
+ * @param properties - Page properties (webhook payload or API response)
+ * @param config - Shared config (property names for each key type)
+ * @returns Normalized keys; unconfigured or empty properties are skipped
+ */
+export function extractMatchKeys(
+  properties: NotionProperties,
+  config: DuplicateCheckerConfig,
+): MatchKey[] {
+  const keys: MatchKey[] = [];
+
+  const sources: Array<{
+    type: MatchKeyType;
+    property: string | null;
+    normalize: (raw: string) => string | null;
+  }> = [
+    {
+      type: "phone",
+      property: config.phoneProperty,
+      normalize: (raw) => normalizePhone(raw, config.defaultPhoneCountryCode),
+    },
+    { type: "email", property: config.emailProperty, normalize: normalizeEmail },
+    { type: "taxId", property: config.taxIdProperty, normalize: normalizeTaxId },
+  ];
+
+  for (const { type, property, normalize } of sources) {
+    if (!property) {
+      continue;
+    }
+
+    // Any property type works (phone_number, email, rich_text, formula,
+    // rollup, ...). A cell may hold several values ("+7 916 ..., +7 495 ...")
+    const raw = propertyToString(properties[property]);
+    for (const part of raw?.split(/[,;\n]/) ?? []) {
+      const value = normalize(part);
+      if (value && !keys.some((key) => key.type === type && key.value === value)) {
+        keys.push({ type, value });
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Whether two sets of match keys are the same (order-insensitive)
+ */
+export function sameMatchKeys(a: MatchKey[], b: MatchKey[]): boolean {
+  const encode = (keys: MatchKey[]) =>
+    keys.map((key) => `${key.type}:${key.value}`).sort().join("\n");
+  return encode(a) === encode(b);
+}
@@ -0,0 +1,357 @@
+/**
+ * Index Matching - Duplicate lookups against the SQLite index
+ *
+ * WHY shared: The webhook classifies incoming pages, and both the webhook
+ * and the index builder re-classify the pages left behind when a member of
+ * a group is renamed, archived or deleted. All of them must agree on what
+ * counts as a match, so the lookups live here.
+ */
+
+import { sqlite } from "https://esm.town/v/std/sqlite";
+import type { DuplicateCheckerConfig } from "./config.ts";
+import { findDistinctPartners } from "./exceptions.ts";
+import {
+  FUZZY_CANDIDATE_LIMIT,
+  minSharedTrigrams,
+  trigrams,
+  trigramSimilarity,
+} from "./fuzzy.ts";
+import type { MatchKey, MatchKeyType } from "./match-keys.ts";
+import { transliterationKey } from "./transliterate.ts";
+
+/**
+ * What the index currently holds for a page
+ */
+export interface IndexedPage {
+  normalizedName: string;
+  keys: MatchKey[];
+}
+
+/**
+ * Every indexed page that matches a name and set of match keys
+ */
+export interface PageMatches {
+  nameDuplicates: string[];
+  keyMatches: Array<{ pageId: string; keyType: MatchKeyType }>;
+  /** Exact duplicates: same normalized name or a shared match key */
+  otherDuplicates: string[];
+  transliterationPageIds: string[];
+  fuzzyMatches: Array<{ pageId: string; similarity: number }>;
+}
+
+/**
+ * Read a page's stored name and match keys
+ *
+ * @returns null if the page is not in the index
+ */
+export async function getIndexedPage(pageId: string): Promise<IndexedPage | null> {
+  const nameResult = await sqlite.execute({
+    sql: "SELECT name FROM name_index WHERE notion_page_id = ?",
+    args: [pageId],
+  });
+  if (nameResult.rows.length === 0) {
+    return null;
+  }
+
+  const keyResult = await sqlite.execute({
+    sql: "SELECT key_type, key_value FROM match_keys WHERE notion_page_id = ?",
+    args: [pageId],
+  });
+
+  // Val.town SQLite returns rows as arrays, not objects
+  return {
+    normalizedName: nameResult.rows[0][0] as string,
+    keys: keyResult.rows.map((row: any) => ({
+      type: row[0] as MatchKeyType,
+      value: row[1] as string,
+    })),
+  };
+}
+
+/**
+ * Read the stored names and match keys of many pages in two queries
+ *
+ * @returns Indexed pages by ID (pages not in the index are left out)
+ */
+export async function getIndexedPages(pageIds: string[]): Promise<Map<string, IndexedPage>> {
+  const pages = new Map<string, IndexedPage>();
+  if (pageIds.length === 0) {
+    return pages;
+  }
+
+  const placeholders = pageIds.map(() => "?").join(", ");
+  const nameResult = await sqlite.execute({
+    sql: `SELECT notion_page_id, name FROM name_index WHERE notion_page_id IN (${placeholders})`,
+    args: pageIds,
+  });
+  for (const row of nameResult.rows) {
+    pages.set(row[0] as string, { normalizedName: row[1] as string, keys: [] });
+  }
+
+  const keyResult = await sqlite.execute({
+    sql: `
+      SELECT notion_page_id, key_type, key_value FROM match_keys
+      WHERE notion_page_id IN (${placeholders})
+    `,
+    args: pageIds,
+  });
+  for (const row of keyResult.rows) {
+    pages.get(row[0] as string)?.keys.push({
+      type: row[1] as MatchKeyType,
+      value: row[2] as string,
+    });
+  }
+
+  return pages;
+}
+
+/**
+ * Remove a page and everything derived from it from the index
+ *
+ * WHY one batch: A lookup must never see the name without its keys (or the
+ * other way round), which would briefly report a half-removed page.
+ */
+export async function removeFromIndex(pageId: string): Promise<void> {
+  await sqlite.batch([
+    { sql: "DELETE FROM name_index WHERE notion_page_id = ?", args: [pageId] },
+    { sql: "DELETE FROM name_trigrams WHERE notion_page_id = ?", args: [pageId] },
+    { sql: "DELETE FROM match_keys WHERE notion_page_id = ?", args: [pageId] },
+  ], "write");
+}
+
+/**
+ * Find all pages indexed under a normalized name
+ */
+export async function findDuplicatePages(normalizedName: string): Promise<string[]> {
+  const result = await sqlite.execute({
+    sql: "SELECT notion_page_id FROM name_index WHERE name = ?",
+    args: [normalizedName],
+  });
+
+  return result.rows.map((row: any) => row[0] as string);
+}
+
+/**
+ * Find pages whose name is similar (but not identical) to the given name
+ *
+ * WHY two steps: SQLite narrows the 150k rows down to a few candidates that
+ * share enough trigrams (index range scans on name_trigrams), then we score
+ * only those candidates in memory.
+ *
+ * WHY exclude identical names before the limit: They share every trigram,
+ * so they would rank first and, for a common name, fill all candidate
+ * slots and push out the real fuzzy matches.
+ *
+ * @returns Candidate page IDs with their similarity, best first
+ */
+export async function findFuzzyMatches(
+  normalizedName: string,
+  threshold: number,
+): Promise<Array<{ pageId: string; similarity: number }>> {
+  const grams = trigrams(normalizedName);
+  const placeholders = grams.map(() => "?").join(", ");
+
+  const result = await sqlite.execute({
+    sql: `
+      SELECT t.notion_page_id, n.name, COUNT(*) AS shared
+      FROM name_trigrams t
+      JOIN name_index n ON n.notion_page_id = t.notion_page_id
+      WHERE t.trigram IN (${placeholders}) AND n.name != ?
+      GROUP BY t.notion_page_id
+      HAVING COUNT(*) >= ?
+      ORDER BY shared DESC
+      LIMIT ?
+    `,
+    args: [
+      ...grams,
+      normalizedName,
+      minSharedTrigrams(grams.length, threshold),
+      FUZZY_CANDIDATE_LIMIT,
+    ],
+  });
+
+  return result.rows
+    .map((row: any) => ({
+      pageId: row[0] as string,
+      similarity: trigramSimilarity(grams, trigrams(row[1] as string)),
+    }))
+    .filter((match) => match.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Find pages whose name has the same transliteration key but a different
+ * normalized name (e.g. Cyrillic vs Latin spelling)
+ */
+export async function findTransliterationMatches(
+  normalizedName: string,
+): Promise<string[]> {
+  const key = transliterationKey(normalizedName);
+  if (!key) {
+    return [];
+  }
+
+  const result = await sqlite.execute({
+    sql: "SELECT notion_page_id FROM name_index WHERE translit_key = ? AND name != ?",
+    args: [key, normalizedName],
+  });
+
+  return result.rows.map((row: any) => row[0] as string);
+}
+
+/**
+ * Find pages sharing any of the given match keys (phone, email, tax ID)
+ *
+ * @returns One entry per page and key type it matched on
+ */
+export async function findMatchKeyPages(
+  keys: MatchKey[],
+): Promise<Array<{ pageId: string; keyType: MatchKeyType }>> {
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const result = await sqlite.execute({
+    sql: `
+      SELECT DISTINCT key_type, notion_page_id
+      FROM match_keys
+      WHERE ${keys.map(() => "(key_type = ? AND key_value = ?)").join(" OR ")}
+    `,
+    args: keys.flatMap((key) => [key.type, key.value]),
+  });
+
+  return result.rows.map((row: any) => ({
+    keyType: row[0] as MatchKeyType,
+    pageId: row[1] as string,
+  }));
+}
+
+/**
+ * Run every enabled matcher for a page
+ *
+ * WHY exclude the page itself: The webhook may fire several times for one
+ * page (Notion sometimes sends duplicate webhooks, and updates re-send
+ * known pages), so it can already be in the index. A page is never its own
+ * duplicate.
+ *
+ * WHY exceptions are applied here: Every caller (tagging, re-evaluation,
+ * reconciliation) must skip pairs a reviewer marked "Not Duplicate".
+ * Pass respectExceptions = false only to find the pairs to mark.
+ */
+export async function findAllMatches(
+  pageId: string,
+  normalizedName: string,
+  keys: MatchKey[],
+  config: DuplicateCheckerConfig,
+  respectExceptions = true,
+): Promise<PageMatches> {
+  const excluded = respectExceptions
+    ? await findDistinctPartners(pageId)
+    : new Set<string>();
+  excluded.add(pageId);
+
+  const nameDuplicates = (await findDuplicatePages(normalizedName)).filter(
+    (id) => !excluded.has(id),
+  );
+
+  /**
+   * Match keys (phone, email, tax ID) count as exact duplicates
+   *
+   * WHY: The same phone number or INN identifies the same client even when
+   * the names are spelled differently.
+   */
+  const keyMatches = (await findMatchKeyPages(keys)).filter(
+    (match) => !excluded.has(match.pageId),
+  );
+  const otherDuplicates = [
+    ...new Set([...nameDuplicates, ...keyMatches.map((match) => match.pageId)]),
+  ];
+
+  /**
+   * Transliteration matches (opt-in): same name in the other script
+   *
+   * "Иванов Сергей" and "Ivanov Sergey" share a transliteration key but
+   * not a normalized name. Reported as their own match reason.
+   */
+  const transliterationPageIds = config.transliterationMatching
+    ? (await findTransliterationMatches(normalizedName)).filter(
+      (id) => !excluded.has(id) && !otherDuplicates.includes(id),
+    )
+    : [];
+
+  /**
+   * Fuzzy matches (opt-in): similar but not identical names
+   *
+   * WHY a separate label: Reviewers need to tell certain hits ("Duplicate")
+   * apart from likely ones ("Possible Duplicate") before merging anything.
+   */
+  const fuzzyMatches = config.fuzzyMatching
+    ? (await findFuzzyMatches(normalizedName, config.fuzzyThreshold)).filter(
+      (match) =>
+        !excluded.has(match.pageId) &&
+        !otherDuplicates.includes(match.pageId) &&
+        !transliterationPageIds.includes(match.pageId),
+    )
+    : [];
+
+  return {
+    nameDuplicates,
+    keyMatches,
+    otherDuplicates,
+    transliterationPageIds,
+    fuzzyMatches,
+  };
+}
+
+/**
+ * Label a page should carry given its matches (exact wins over lossy)
+ *
+ * @returns Label, or null if the page is not a duplicate
+ */
+export function labelFor(
+  matches: PageMatches,
+  config: DuplicateCheckerConfig,
+): string | null {
+  if (matches.otherDuplicates.length > 0) {
+    return config.tagLabel;
+  }
+  if (matches.transliterationPageIds.length > 0 || matches.fuzzyMatches.length > 0) {
+    return config.possibleDuplicateLabel;
+  }
+  return null;
+}
+
+/**
+ * All page IDs in a match result
+ */
+export function matchedPageIds(matches: PageMatches): string[] {
+  return [
+    ...matches.otherDuplicates,
+    ...matches.transliterationPageIds,
+    ...matches.fuzzyMatches.map((match) => match.pageId),
+  ];
+}
+
+/**
+ * Classify an indexed page against the current index
+ *
+ * @returns Label the page should carry, or null if it is not a duplicate
+ *   (or no longer indexed)
+ */
+export async function classifyIndexedPage(
+  pageId: string,
+  config: DuplicateCheckerConfig,
+): Promise<string | null> {
+  const indexed = await getIndexedPage(pageId);
+  if (!indexed) {
+    return null;
+  }
+
+  const matches = await findAllMatches(
+    pageId,
+    indexed.normalizedName,
+    indexed.keys,
+    config,
+  );
+  return labelFor(matches, config);
+}
@@ -0,0 +1,329 @@
+/**
+ * Merge Planning - Fold a duplicate group into one canonical page
+ *
+ * WHY a pure planner: The merge runs from the webhook Val (HTTP route) and
+ * from the local backfill CLI, and both must show the exact same dry-run
+ * preview before anything is written. This module only decides what the
+ * canonical page should look like; the scripts do the Notion calls (PATCH
+ * the canonical page, archive the others, leave a comment).
+ */
+
+import type { MergeRule } from "./config.ts";
+import {
+  type NotionProperties,
+  type NotionPropertyValue,
+  propertyToString,
+  propertyType,
+} from "./properties.ts";
+
+/**
+ * A group member as returned by GET /pages/{id}
+ */
+export interface MergePage {
+  id: string;
+  created_time: string;
+  last_edited_time?: string;
+  properties: NotionProperties;
+}
+
+/**
+ * One property the merge will change on the canonical page
+ */
+export interface MergeChange {
+  property: string;
+  rule: MergeRule;
+  /** Pages the new value was taken from */
+  fromPageIds: string[];
+  before: string | null;
+  after: string | null;
+}
+
+export interface MergePlan {
+  canonicalPageId: string;
+  /** Pages to archive after the canonical page is updated */
+  mergedPageIds: string[];
+  /** Object to place under `properties` in PATCH /pages/{canonical} */
+  updates: Record<string, unknown>;
+  changes: MergeChange[];
+}
+
+/**
+ * Property types the API lets us write, and the rules that make sense for
+ * them. Anything else (formula, rollup, created_time, unique_id, ...) is
+ * computed by Notion and never copied.
+ */
+const LIST_TYPES = new Set(["multi_select", "relation", "people", "files"]);
+const WRITABLE_TYPES = new Set([
+  "title",
+  "rich_text",
+  "number",
+  "select",
+  "status",
+  "multi_select",
+  "date",
+  "people",
+  "files",
+  "checkbox",
+  "url",
+  "email",
+  "phone_number",
+  "relation",
+]);
+
+/**
+ * Pick the canonical page: the one requested, or the oldest by created_time
+ *
+ * @throws If the requested page is not part of the group
+ */
+export function chooseCanonical(
+  pages: MergePage[],
+  canonicalPageId?: string,
+): MergePage {
+  if (canonicalPageId) {
+    const chosen = pages.find((page) => page.id === canonicalPageId);
+    if (!chosen) {
+      throw new Error(`Canonical page ${canonicalPageId} is not part of the group`);
+    }
+    return chosen;
+  }
+
+  return [...pages].sort((a, b) => a.created_time.localeCompare(b.created_time))[0];
+}
+
+/**
+ * Whether a property holds nothing worth keeping
+ */
+function isEmpty(property: NotionPropertyValue | undefined): boolean {
+  if (!property) {
+    return true;
+  }
+
+  const type = propertyType(property);
+  if (type === "checkbox") {
+    return property.checkbox !== true;
+  }
+  if (type && LIST_TYPES.has(type)) {
+    return listItems(property).length === 0;
+  }
+  return propertyToString(property) === null;
+}
+
+/**
+ * Items of a list-like property, keyed so duplicates can be dropped
+ */
+function listItems(property: NotionPropertyValue): Array<{ key: string; value: unknown }> {
+  switch (propertyType(property)) {
+    case "multi_select":
+      return (property.multi_select ?? []).map((option) => ({
+        key: option.name.toLowerCase(),
+        value: { name: option.name },
+      }));
+    case "relation":
+      return (property.relation ?? []).map((item) => ({ key: item.id, value: { id: item.id } }));
+    case "people":
+      return (property.people ?? []).map((person) => ({ key: person.id, value: { id: person.id } }));
+    case "files":
+      // Files uploaded to Notion have expiring URLs and cannot be re-attached
+      return (property.files ?? [])
+        .filter((file) => file.type === "external" && file.external)
+        .map((file) => ({
+          key: file.external!.url,
+          value: { name: file.name, type: "external", external: { url: file.external!.url } },
+        }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Convert a property value read from a page into a PATCH value
+ *
+ * @returns Value to place under the property name, or undefined if the
+ *   value cannot be written back
+ */
+function writableValue(property: NotionPropertyValue): unknown | undefined {
+  const type = propertyType(property);
+
+  switch (type) {
+    case "title":
+    case "rich_text":
+      // Mentions and equations are flattened to their text
+      return {
+        [type]: (property[type] ?? []).map((segment) => ({
+          type: "text",
+          text: {
+            content: segment.plain_text,
+            link: segment.href ? { url: segment.href } : null,
+          },
+          ...(segment.annotations ? { annotations: segment.annotations } : {}),
+        })),
+      };
+    case "number":
+    case "url":
+    case "email":
+    case "phone_number":
+    case "checkbox":
+      return { [type]: property[type] };
+    case "select":
+    case "status":
+      return { [type]: property[type] ? { name: property[type]!.name } : null };
+    case "date":
+      return {
+        date: property.date ? { start: property.date.start, end: property.date.end ?? null } : null,
+      };
+    case "multi_select":
+    case "relation":
+    case "people":
+    case "files": {
+      const items = listItems(property);
+      return items.length > 0 ? { [type]: items.map((item) => item.value) } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Short text for the preview and the merge comment
+ */
+function describe(property: NotionPropertyValue | undefined): string | null {
+  if (!property || isEmpty(property)) {
+    return null;
+  }
+  const type = propertyType(property);
+  if (type && LIST_TYPES.has(type) && type !== "multi_select") {
+    return `${listItems(property).length} item(s)`;
+  }
+  return propertyToString(property);
+}
+
+/**
+ * Decide the canonical page's new property values
+ *
+ * @param pages - All group members (canonical included)
+ * @param canonical - Page that survives
+ * @param rules - Per-property rules; unlisted properties use "fill"
+ * @param protectedProperties - Never changed by the merge (the tag and
+ *   relation properties, which describe the group rather than the client)
+ */
+export function planMerge(
+  pages: MergePage[],
+  canonical: MergePage,
+  rules: Record<string, MergeRule>,
+  protectedProperties: string[],
+): MergePlan {
+  const others = pages
+    .filter((page) => page.id !== canonical.id)
+    .sort((a, b) => a.created_time.localeCompare(b.created_time));
+  const plan: MergePlan = {
+    canonicalPageId: canonical.id,
+    mergedPageIds: others.map((page) => page.id),
+    updates: {},
+    changes: [],
+  };
+
+  const propertyNames = new Set(pages.flatMap((page) => Object.keys(page.properties)));
+
+  for (const name of propertyNames) {
+    const rule = rules[name] ?? "fill";
+    const current = canonical.properties[name];
+    const type = current ? propertyType(current) : undefined;
+    if (rule === "skip" || protectedProperties.includes(name) || !type || !WRITABLE_TYPES.has(type)) {
+      continue;
+    }
+
+    const donors = others.filter((page) => !isEmpty(page.properties[name]));
+    if (donors.length === 0) {
+      continue;
+    }
+
+    let value: unknown | undefined;
+    let after: string | null = null;
+    let fromPageIds: string[] = [];
+
+    if (rule === "union" && LIST_TYPES.has(type)) {
+      const seen = new Set(listItems(current!).map((item) => item.key));
+      const added = donors.flatMap((page) =>
+        listItems(page.properties[name]!)
+          .filter((item) => {
+            const isNew = !seen.has(item.key);
+            seen.add(item.key);
+            return isNew;
+          })
+          .map((item) => ({ ...item, pageId: page.id }))
+      );
+      if (added.length > 0) {
+        const items = [...listItems(current!), ...added];
+        value = { [type]: items.map((item) => item.value) };
+        after = type === "multi_select"
+          ? items.map((item) => (item.value as { name: string }).name).join(", ")
+          : `${items.length} item(s)`;
+        fromPageIds = [...new Set(added.map((item) => item.pageId))];
+      }
+    } else if (rule === "concat" && type === "rich_text") {
+      const before = propertyToString(current);
+      const texts = before === null ? [] : [before];
+      for (const page of donors) {
+        const text = propertyToString(page.properties[name])!;
+        if (!texts.includes(text)) {
+          texts.push(text);
+          fromPageIds.push(page.id);
+        }
+      }
+      if (fromPageIds.length > 0) {
+        // 2000 characters is Notion's limit per rich_text segment
+        after = texts.join("\n").slice(0, 2000);
+        value = { rich_text: [{ type: "text", text: { content: after } }] };
+      }
+    } else if (rule === "newest") {
+      const newest = [canonical, ...donors]
+        .filter((page) => !isEmpty(page.properties[name]))
+        .sort((a, b) =>
+          (b.last_edited_time ?? b.created_time).localeCompare(a.last_edited_time ?? a.created_time)
+        )[0];
+      if (newest.id !== canonical.id) {
+        value = writableValue(newest.properties[name]!);
+        after = describe(newest.properties[name]);
+        fromPageIds = [newest.id];
+      }
+    } else if (isEmpty(current)) {
+      // "fill", and "union"/"concat" on types they do not apply to
+      value = writableValue(donors[0].properties[name]!);
+      after = describe(donors[0].properties[name]);
+      fromPageIds = [donors[0].id];
+    }
+
+    if (value === undefined) {
+      continue;
+    }
+
+    plan.updates[name] = value;
+    plan.changes.push({ property: name, rule, fromPageIds, before: describe(current), after });
+  }
+
+  return plan;
+}
+
+/**
+ * Text of the comment left on the canonical page
+ */
+export function formatMergeComment(plan: MergePlan): string {
+  const lines = [
+    `Merged ${plan.mergedPageIds.length} duplicate page(s) into this page: ` +
+      plan.mergedPageIds.join(", "),
+  ];
+
+  if (plan.changes.length === 0) {
+    lines.push("No properties were copied.");
+  }
+  const oneLine = (text: string | null) => text?.replace(/\n/g, " / ") ?? "(empty)";
+  for (const change of plan.changes) {
+    lines.push(
+      `• ${change.property} (${change.rule}): ${oneLine(change.before)} → ` +
+        `${oneLine(change.after)} from ${change.fromPageIds.join(", ")}`,
+    );
+  }
+
+  // Notion limits a comment's rich text segment to 2000 characters
+  return lines.join("\n").slice(0, 2000);
+}
@@ -0,0 +1,153 @@
+/**
+ * Name Normalization Pipeline
+ *
+ * WHY: Users enter the same client in many shapes - different casing, extra
+ * whitespace, «quotes», "ё" vs "е", or a Latin "A" typed on a Russian
+ * layout. SQLite's COLLATE NOCASE only folds ASCII, so all folding happens
+ * here before a name is stored or looked up. Every script must use this one
+ * function, otherwise the webhook and the index would disagree on keys.
+ *
+ * Steps (in order):
+ * 1. Unicode NFKC (full-width letters, ligatures, non-breaking spaces)
+ * 2. Lowercase (Unicode-aware, unlike COLLATE NOCASE)
+ * 3. ё → е
+ * 4. Punctuation, quotes and symbols → space
+ * 5. Latin/Cyrillic homoglyph folding within mixed-script words
+ * 6. Optional removal of legal-form words (ООО, ИП, LLC, ...)
+ * 7. Whitespace collapsing and trimming
+ */
+
+import { TRANSLITERATION_VERSION } from "./transliterate.ts";
+
+export interface NormalizeOptions {
+  /** Drop legal-form words such as "ООО" or "LLC" */
+  stripLegalForms: boolean;
+}
+
+/**
+ * Bump whenever the pipeline below changes behaviour
+ *
+ * The index builder compares the stored fingerprint of each name_index row
+ * with the current one and re-normalizes stale rows. The fingerprint also
+ * covers the transliteration key, which is derived from the normalized name.
+ */
+const NORMALIZATION_VERSION = 2;
+
+/**
+ * Lowercase letters that look identical in Latin and Cyrillic
+ * (uppercase forms A/А, B/В, E/Е, K/К, M/М, H/Н, O/О, P/Р, C/С, T/Т, X/Х, Y/У)
+ */
+const LATIN_TO_CYRILLIC: Record<string, string> = {
+  a: "а",
+  b: "в",
+  e: "е",
+  k: "к",
+  m: "м",
+  h: "н",
+  o: "о",
+  p: "р",
+  c: "с",
+  t: "т",
+  x: "х",
+  y: "у",
+};
+
+const CYRILLIC_TO_LATIN: Record<string, string> = Object.fromEntries(
+  Object.entries(LATIN_TO_CYRILLIC).map(([latin, cyrillic]) => [cyrillic, latin]),
+);
+
+/**
+ * Legal-form words removed when stripLegalForms is enabled (matched after
+ * lowercasing; "ooo"/"oao" cover the forms typed entirely in Latin letters)
+ */
+const LEGAL_FORMS = new Set([
+  "ооо",
+  "ooo",
+  "оао",
+  "oao",
+  "зао",
+  "пао",
+  "ао",
+  "ип",
+  "чп",
+  "нко",
+  "ано",
+  "тоо",
+  "llc",
+  "ltd",
+  "inc",
+  "llp",
+  "plc",
+  "gmbh",
+]);
+
+/**
+ * Identify the pipeline version and options a stored name was produced with
+ */
+export function normalizationFingerprint(options: NormalizeOptions): string {
+  return `v${NORMALIZATION_VERSION}t${TRANSLITERATION_VERSION}${
+    options.stripLegalForms ? "+legal" : ""
+  }`;
+}
+
+/**
+ * Fold lookalike letters in a word written in mixed scripts
+ *
+ * WHY only mixed words: "Aлексей" (Latin A + Cyrillic) should become
+ * "алексей", but a purely Latin "Acme" must stay Latin so it still matches
+ * other Latin spellings.
+ *
+ * The word is folded into the script it can be written in entirely
+ * ("Aлексей" → Cyrillic, because "л" has no Latin twin). If both work, the
+ * majority script wins and ties go to Latin ("Асme" → "acme"); if neither
+ * works the word is left alone.
+ */
+function foldHomoglyphs(word: string): string {
+  const chars = Array.from(word);
+  const cyrillic = chars.filter((char) => /\p{Script=Cyrillic}/u.test(char));
+  const latin = chars.filter((char) => /\p{Script=Latin}/u.test(char));
+
+  if (cyrillic.length === 0 || latin.length === 0) {
+    return word;
+  }
+
+  const canBeCyrillic = latin.every((char) => char in LATIN_TO_CYRILLIC);
+  const canBeLatin = cyrillic.every((char) => char in CYRILLIC_TO_LATIN);
+
+  let table: Record<string, string>;
+  if (canBeCyrillic && (!canBeLatin || cyrillic.length > latin.length)) {
+    table = LATIN_TO_CYRILLIC;
+  } else if (canBeLatin) {
+    table = CYRILLIC_TO_LATIN;
+  } else {
+    return word;
+  }
+
+  return chars.map((char) => table[char] ?? char).join("");
+}
+
+/**
+ * Normalize a name for duplicate matching
+ *
+ * @param name - Raw name from Notion
+ * @param options - Pipeline options (the shared config satisfies this)
+ * @returns Matching key, e.g. «ООО "Ромашка"» → "ооо ромашка"
+ *   (or "ромашка" with stripLegalForms)
+ */
+export function normalizeName(name: string, options: NormalizeOptions): string {
+  const words = name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[\p{P}\p{S}]+/gu, " ")
+    .split(/\s+/u)
+    .filter((word) => word.length > 0)
+    .map(foldHomoglyphs);
+
+  // Never strip a name down to nothing (a client literally called "ИП")
+  const kept = options.stripLegalForms
+    ? words.filter((word) => !LEGAL_FORMS.has(word))
+    : words;
+
+  return (kept.length > 0 ? kept : words).join(" ");
+}
@@ -0,0 +1,291 @@
+/**
+ * Notion Client - The one way all scripts talk to the Notion API
+ *
+ * WHY shared: Each script used to carry its own fetch helpers and its own
+ * retryWithBackoff, deciding what to retry by matching "429" in error
+ * messages. The webhook never retried 5xx, and the backfill wrapped fetch
+ * itself, so it never saw HTTP errors at all. Here every failure becomes a
+ * NotionApiError with the HTTP status and Notion's error code, and the
+ * retry decision is made on those:
+ *
+ * - 429 rate_limited: wait for Retry-After (or the backoff, if longer)
+ * - 5xx, network failures and timeouts: exponential backoff, except for
+ *   POSTs that create something (comments, pages), see isIdempotent
+ * - anything else (400 validation, 401, 403, 404): fail fast
+ *
+ * Requests from one process share a token bucket set to Notion's 3 req/s
+ * average, so callers no longer need their own sleeps between calls.
+ *
+ * Settings (all optional, per client or via env):
+ * NOTION_TOKEN, NOTION_API_VERSION, NOTION_API_BASE_URL, NOTION_TIMEOUT_MS
+ */
+
+const DEFAULT_API_VERSION = "2022-06-28";
+const DEFAULT_BASE_URL = "https://api.notion.com/v1";
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY_MS = 1000;
+
+/**
+ * Error for a failed Notion request
+ *
+ * status is null when no response arrived (network failure or timeout);
+ * code is Notion's error code (e.g. "rate_limited", "object_not_found") or
+ * "network_error" / "timeout".
+ */
+export interface NotionApiError extends Error {
+  name: "NotionApiError";
+  status: number | null;
+  code: string;
+  method: string;
+  path: string;
+  /** Wait requested by the Retry-After header, if any */
+  retryAfterMs: number | null;
+}
+
+export function isNotionApiError(error: unknown): error is NotionApiError {
+  return error instanceof Error && error.name === "NotionApiError";
+}
+
+function notionApiError(fields: {
+  status: number | null;
+  code: string;
+  method: string;
+  path: string;
+  message: string;
+  retryAfterMs?: number | null;
+}): NotionApiError {
+  const error = new Error(
+    `Notion ${fields.method} ${fields.path} failed: ` +
+      `${fields.status ?? "no response"} ${fields.code}: ${fields.message}`,
+  ) as NotionApiError;
+  error.name = "NotionApiError";
+  error.status = fields.status;
+  error.code = fields.code;
+  error.method = fields.method;
+  error.path = fields.path;
+  error.retryAfterMs = fields.retryAfterMs ?? null;
+  return error;
+}
+
+/**
+ * Whether a failed request may succeed if sent again
+ */
+export function isRetryable(error: NotionApiError): boolean {
+  return error.status === null || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Whether a request can be sent twice without a second effect
+ *
+ * WHY: After a timeout or a 5xx the request may still have gone through, so
+ * sending POST /comments again can post the merge comment twice. Such
+ * POSTs are only retried on 429, which Notion answers before doing
+ * anything. Queries and searches are POSTs too, but only read.
+ */
+function isIdempotent(method: string, path: string): boolean {
+  return method !== "POST" || /\/query$/.test(path) || path === "/search";
+}
+
+/**
+ * Token bucket: allows short bursts up to capacity, refills at a steady rate
+ */
+export interface TokenBucket {
+  /** Resolve once a request may be sent */
+  take(): Promise<void>;
+}
+
+export function createTokenBucket(ratePerSecond: number, capacity: number): TokenBucket {
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  // Callers queue on this chain so tokens are handed out in order
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * ratePerSecond);
+    refilledAt = now;
+  };
+
+  return {
+    take(): Promise<void> {
+      const turn = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await sleep(((1 - tokens) / ratePerSecond) * 1000);
+          refill();
+        }
+        tokens -= 1;
+      });
+      queue = turn;
+      return turn;
+    },
+  };
+}
+
+/**
+ * Shared by every client in the process (Notion's limit is per integration)
+ */
+const defaultLimiter = createTokenBucket(3, 3);
+
+export interface NotionClientOptions {
+  token?: string;
+  apiVersion?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  /** Attempts after the first one (default 3) */
+  maxRetries?: number;
+  limiter?: TokenBucket;
+}
+
+export interface NotionClient {
+  /** Send any request; resolves with the parsed JSON body */
+  request<T = unknown>(method: string, path: string, body?: unknown): Promise<T>;
+  getPage<T = unknown>(pageId: string): Promise<T>;
+  getDatabase<T = unknown>(databaseId: string): Promise<T>;
+  queryDatabase<T = unknown>(databaseId: string, body: Record<string, unknown>): Promise<T>;
+  /** PATCH /pages/{id} with the given property values */
+  updatePageProperties(pageId: string, properties: Record<string, unknown>): Promise<void>;
+  /** Move a page to the trash (restorable for 30 days) */
+  archivePage(pageId: string): Promise<void>;
+  /** Needs the integration's "Insert comments" capability */
+  createComment(pageId: string, text: string): Promise<void>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse Retry-After (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function envNumber(name: string): number | undefined {
+  const raw = Deno.env.get(name);
+  return raw !== undefined && Number.isFinite(Number(raw)) ? Number(raw) : undefined;
+}
+
+/**
+ * Create a client; options not given fall back to env vars, then defaults
+ */
+export function createNotionClient(options: NotionClientOptions = {}): NotionClient {
+  const apiVersion = options.apiVersion ?? Deno.env.get("NOTION_API_VERSION") ?? DEFAULT_API_VERSION;
+  const baseUrl = (options.baseUrl ?? Deno.env.get("NOTION_API_BASE_URL") ?? DEFAULT_BASE_URL)
+    .replace(/\/+$/, "");
+  const timeoutMs = options.timeoutMs ?? envNumber("NOTION_TIMEOUT_MS") ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const limiter = options.limiter ?? defaultLimiter;
+
+  /**
+   * WHY read the token per request: Scripts create their client at module
+   * load; a missing token should fail the first request, not the import.
+   */
+  const headers = (): HeadersInit => {
+    const token = options.token ?? Deno.env.get("NOTION_TOKEN");
+    if (!token) {
+      throw new Error("NOTION_TOKEN environment variable is not set");
+    }
+    return {
+      "Authorization": `Bearer ${token}`,
+      "Notion-Version": apiVersion,
+      "Content-Type": "application/json",
+    };
+  };
+
+  const send = async (method: string, path: string, body?: unknown): Promise<unknown> => {
+    await limiter.take();
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: headers(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error: any) {
+      const timedOut = error?.name === "TimeoutError" || error?.name === "AbortError";
+      throw notionApiError({
+        status: null,
+        code: timedOut ? "timeout" : "network_error",
+        method,
+        path,
+        message: timedOut ? `no response within ${timeoutMs}ms` : String(error?.message ?? error),
+      });
+    }
+
+    const text = await response.text();
+    let json: any = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      // Non-JSON body (proxy errors): reported as text below
+    }
+
+    if (!response.ok) {
+      throw notionApiError({
+        status: response.status,
+        code: json?.code ?? `http_${response.status}`,
+        method,
+        path,
+        message: json?.message ?? text.slice(0, 500),
+        retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+      });
+    }
+
+    return json;
+  };
+
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    for (let attempt = 0;; attempt++) {
+      try {
+        return await send(method, path, body) as T;
+      } catch (error) {
+        if (!isNotionApiError(error) || !isRetryable(error) || attempt >= maxRetries) {
+          throw error;
+        }
+        if (error.status !== 429 && !isIdempotent(method, path)) {
+          throw error;
+        }
+
+        const backoff = INITIAL_RETRY_DELAY_MS * 2 ** attempt; // 1s, 2s, 4s
+        const delay = Math.max(backoff, error.retryAfterMs ?? 0);
+        console.log(
+          `Notion ${method} ${path}: ${error.status ?? error.code}, retrying in ${delay}ms ` +
+            `(attempt ${attempt + 1}/${maxRetries})`,
+        );
+        await sleep(delay);
+      }
+    }
+  };
+
+  return {
+    request,
+    getPage: (pageId) => request("GET", `/pages/${pageId}`),
+    getDatabase: (databaseId) => request("GET", `/databases/${databaseId}`),
+    queryDatabase: (databaseId, body) => request("POST", `/databases/${databaseId}/query`, body),
+    updatePageProperties: async (pageId, properties) => {
+      await request("PATCH", `/pages/${pageId}`, { properties });
+    },
+    archivePage: async (pageId) => {
+      await request("PATCH", `/pages/${pageId}`, { archived: true });
+    },
+    createComment: async (pageId, text) => {
+      await request("POST", "/comments", {
+        parent: { page_id: pageId },
+        rich_text: [{ type: "text", text: { content: text } }],
+      });
+    },
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Pending Operations - Durable retry queue for failed tag updates
+ *
+ * WHY: The webhook tags several pages per delivery. When one PATCH fails
+ * (a 5xx, a timeout, a 429 that outlasts the Notion client's retries), that page used
+ * to stay untagged for good. Failures are now queued in pending_operations
+ * (shared/schema.ts); the index builder drains the queue on every run with
+ * exponential backoff. After MAX_ATTEMPTS an operation is moved to the
+ * dead-letter list (status "dead") to be inspected and retried by hand.
+ *
+ * The webhook also schedules its tag and "Duplicate of" link writes here
+ * before it replies (scheduleTagOperations), so writes it does not get to
+ * after the response are still made by the next index builder run.
+ *
+ * WHY one row per page: Draining re-classifies the page against the current
+ * index rather than replaying the label stored at failure time, so the
+ * index may have moved on without leaving a stale tag behind. The stored
+ * label only documents what was attempted.
+ */
+
+import { type InStatement, sqlite } from "https://esm.town/v/std/sqlite";
+
+export type OperationStatus = "pending" | "dead";
+
+export interface PendingOperation {
+  id: number;
+  pageId: string;
+  /** Label that failed to be written (null = clearing the tag, or not known yet) */
+  label: string | null;
+  /** Rebuild the page's duplicate group before tagging it */
+  regroup: boolean;
+  attempts: number;
+  lastError: string | null;
+  status: OperationStatus;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Attempts (the failed one that queued the operation included) before an
+ * operation goes to the dead-letter list
+ */
+export const MAX_ATTEMPTS = 8;
+
+/**
+ * Seconds to wait before the next attempt: 1 min, 2 min, 4 min, ... 6 h max
+ */
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(60 * 2 ** Math.max(attempts - 1, 0), 6 * 60 * 60);
+}
+
+const OPERATION_COLUMNS =
+  "id, page_id, label, attempts, last_error, status, next_attempt_at, created_at, updated_at, regroup";
+
+function toOperation(row: any): PendingOperation {
+  // Val.town SQLite returns rows as arrays, not objects
+  return {
+    id: Number(row[0]),
+    pageId: row[1] as string,
+    label: row[2] as string | null,
+    attempts: Number(row[3]),
+    lastError: row[4] as string | null,
+    status: row[5] as OperationStatus,
+    nextAttemptAt: row[6] as string,
+    createdAt: row[7] as string,
+    updatedAt: row[8] as string,
+    regroup: Number(row[9]) === 1,
+  };
+}
+
+/**
+ * Queue a page whose tag update failed
+ *
+ * A page already queued keeps its attempt count (and stays dead if it is
+ * dead); only the label and error are refreshed. A scheduled page that had
+ * not been tried yet counts this as its first attempt.
+ */
+export async function enqueueTagOperation(
+  pageId: string,
+  label: string | null,
+  error: string,
+): Promise<void> {
+  await sqlite.execute({
+    sql: `
+      INSERT INTO pending_operations (page_id, label, attempts, last_error, next_attempt_at)
+      VALUES (?, ?, 1, ?, datetime('now', ?))
+      ON CONFLICT(page_id) DO UPDATE SET
+        label = excluded.label,
+        attempts = MAX(attempts, 1),
+        last_error = excluded.last_error,
+        updated_at = datetime('now')
+    `,
+    args: [pageId, label, error, `+${retryDelaySeconds(1)} seconds`],
+  });
+}
+
+/**
+ * Schedule tag updates that are about to be attempted outside the request
+ *
+ * The operations start with no attempts and only become due after
+ * delaySeconds, which leaves the caller time to complete them itself.
+ * Pages already queued keep their row; only the label is refreshed.
+ */
+export async function scheduleTagOperations(
+  operations: Array<{ pageId: string; label: string | null }>,
+  delaySeconds: number,
+): Promise<void> {
+  if (operations.length === 0) {
+    return;
+  }
+
+  await sqlite.execute({
+    sql: `
+      INSERT INTO pending_operations (page_id, label, attempts, next_attempt_at)
+      VALUES ${operations.map(() => "(?, ?, 0, datetime('now', ?))").join(", ")}
+      ON CONFLICT(page_id) DO UPDATE SET
+        label = excluded.label,
+        updated_at = datetime('now')
+    `,
+    args: operations.flatMap((operation) => [
+      operation.pageId,
+      operation.label,
+      `+${Math.floor(delaySeconds)} seconds`,
+    ]),
+  });
+}
+
+/**
+ * Statement queueing pages to be regrouped and re-tagged right away
+ *
+ * WHY a statement: The re-normalization pass runs it in the same batch as
+ * the rows it rewrites, so a run cut short cannot leave a changed page
+ * without its operation.
+ */
+export function scheduleRegroupStatement(
+  pageIds: string[],
+): InStatement {
+  return {
+    sql: `
+      INSERT INTO pending_operations (page_id, attempts, next_attempt_at, regroup)
+      VALUES ${pageIds.map(() => "(?, 0, datetime('now'), 1)").join(", ")}
+      ON CONFLICT(page_id) DO UPDATE SET
+        regroup = 1,
+        updated_at = datetime('now')
+    `,
+    args: pageIds,
+  };
+}
+
+/**
+ * Pending operations whose next attempt is due, oldest first
+ */
+export async function dueOperations(limit: number): Promise<PendingOperation[]> {
+  const result = await sqlite.execute({
+    sql: `
+      SELECT ${OPERATION_COLUMNS} FROM pending_operations
+      WHERE status = 'pending' AND next_attempt_at <= datetime('now')
+      ORDER BY next_attempt_at
+      LIMIT ?
+    `,
+    args: [limit],
+  });
+
+  return result.rows.map(toOperation);
+}
+
+/**
+ * Drop an operation that succeeded (or no longer applies)
+ */
+export async function completeOperation(id: number): Promise<void> {
+  await sqlite.execute({
+    sql: "DELETE FROM pending_operations WHERE id = ?",
+    args: [id],
+  });
+}
+
+/**
+ * Drop the pending operations of pages whose tag was written
+ */
+export async function completePageOperations(pageIds: string[]): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+
+  await sqlite.execute({
+    sql: `DELETE FROM pending_operations WHERE page_id IN (${pageIds.map(() => "?").join(", ")})`,
+    args: pageIds,
+  });
+}
+
+/**
+ * Record a failed attempt: back off, or move to the dead-letter list
+ *
+ * @returns true if the operation is now dead
+ */
+export async function failOperation(
+  operation: PendingOperation,
+  error: string,
+): Promise<boolean> {
+  const attempts = operation.attempts + 1;
+  const dead = attempts >= MAX_ATTEMPTS;
+
+  await sqlite.execute({
+    sql: `
+      UPDATE pending_operations
+      SET attempts = ?, last_error = ?, status = ?,
+          next_attempt_at = datetime('now', ?), updated_at = datetime('now')
+      WHERE id = ?
+    `,
+    args: [
+      attempts,
+      error,
+      dead ? "dead" : "pending",
+      `+${retryDelaySeconds(attempts)} seconds`,
+      operation.id,
+    ],
+  });
+
+  return dead;
+}
+
+/**
+ * List queued operations, optionally by status
+ */
+export async function listOperations(status?: OperationStatus): Promise<PendingOperation[]> {
+  const result = await sqlite.execute(
+    status
+      ? {
+        sql: `SELECT ${OPERATION_COLUMNS} FROM pending_operations WHERE status = ? ORDER BY id`,
+        args: [status],
+      }
+      : { sql: `SELECT ${OPERATION_COLUMNS} FROM pending_operations ORDER BY id`, args: [] },
+  );
+
+  return result.rows.map(toOperation);
+}
+
+/**
+ * Move dead operations back to the queue with a fresh attempt count
+ *
+ * @param ids - Operations to retry; all dead operations if omitted
+ * @returns Number of operations re-queued
+ */
+export async function retryDeadOperations(ids?: number[]): Promise<number> {
+  const filter = ids ? `AND id IN (${ids.map(() => "?").join(", ")})` : "";
+  const result = await sqlite.execute({
+    sql: `
+      UPDATE pending_operations
+      SET status = 'pending', attempts = 0, next_attempt_at = datetime('now'),
+          updated_at = datetime('now')
+      WHERE status = 'dead' ${filter}
+    `,
+    args: ids ?? [],
+  });
+
+  return result.rowsAffected ?? 0;
+}
@@ -0,0 +1,178 @@
+/**
+ * Notion Property Values - Typed shapes and plain-text extraction
+ *
+ * WHY: Reading `title[0].plain_text` drops everything after the first
+ * rich-text segment (a bold part, a mention, a link) and only works for
+ * title properties. Every script turns property values into strings through
+ * propertyToString() instead, so the name and match keys can come from any
+ * column type.
+ */
+
+export interface RichTextSegment {
+  plain_text: string;
+  href?: string | null;
+  annotations?: Record<string, unknown>;
+}
+
+interface DateValue {
+  start: string;
+  end?: string | null;
+}
+
+/**
+ * Value of a single page property (GET /pages/{id} or webhook payload)
+ *
+ * Only the property types we can turn into text are typed. `type` names the
+ * populated field; it is always present in API responses.
+ */
+export interface NotionPropertyValue {
+  type?: string;
+  title?: RichTextSegment[];
+  rich_text?: RichTextSegment[];
+  email?: string | null;
+  phone_number?: string | null;
+  url?: string | null;
+  number?: number | null;
+  checkbox?: boolean;
+  select?: { name: string } | null;
+  status?: { name: string } | null;
+  multi_select?: Array<{ name: string }>;
+  date?: DateValue | null;
+  formula?: {
+    type: string;
+    string?: string | null;
+    number?: number | null;
+    boolean?: boolean | null;
+    date?: DateValue | null;
+  };
+  rollup?: {
+    type: string;
+    number?: number | null;
+    date?: DateValue | null;
+    array?: NotionPropertyValue[];
+  };
+  unique_id?: { prefix: string | null; number: number | null };
+  people?: Array<{ id: string; name?: string }>;
+  relation?: Array<{ id: string }>;
+  files?: Array<{
+    name: string;
+    type: string;
+    external?: { url: string };
+    file?: { url: string };
+  }>;
+}
+
+export type NotionProperties = Record<string, NotionPropertyValue | undefined>;
+
+/**
+ * Infer the property type for payloads that omit `type`
+ */
+export function propertyType(property: NotionPropertyValue): string | undefined {
+  if (property.type) {
+    return property.type;
+  }
+  return Object.keys(property).find((key) => key !== "id");
+}
+
+function joinSegments(segments: RichTextSegment[] | undefined): string {
+  return (segments ?? []).map((segment) => segment.plain_text).join("");
+}
+
+function dateToString(date: DateValue | null | undefined): string {
+  if (!date) {
+    return "";
+  }
+  return date.end ? `${date.start} → ${date.end}` : date.start;
+}
+
+/**
+ * Convert any supported property value to plain text
+ *
+ * Rich text is joined across all segments; formulas and rollups are
+ * unwrapped to their result; rollup arrays are joined with ", ";
+ * unique IDs become "PREFIX-123".
+ *
+ * @returns Text value, or null if the property is missing, empty or of an
+ *   unsupported type
+ */
+export function propertyToString(
+  property: NotionPropertyValue | undefined,
+): string | null {
+  if (!property) {
+    return null;
+  }
+
+  let text = "";
+
+  switch (propertyType(property)) {
+    case "title":
+      text = joinSegments(property.title);
+      break;
+    case "rich_text":
+      text = joinSegments(property.rich_text);
+      break;
+    case "email":
+      text = property.email ?? "";
+      break;
+    case "phone_number":
+      text = property.phone_number ?? "";
+      break;
+    case "url":
+      text = property.url ?? "";
+      break;
+    case "number":
+      text = property.number == null ? "" : String(property.number);
+      break;
+    case "checkbox":
+      text = property.checkbox === undefined ? "" : String(property.checkbox);
+      break;
+    case "select":
+      text = property.select?.name ?? "";
+      break;
+    case "status":
+      text = property.status?.name ?? "";
+      break;
+    case "multi_select":
+      text = (property.multi_select ?? []).map((option) => option.name).join(", ");
+      break;
+    case "date":
+      text = dateToString(property.date);
+      break;
+    case "formula": {
+      const formula = property.formula;
+      if (formula?.type === "string") {
+        text = formula.string ?? "";
+      } else if (formula?.type === "number") {
+        text = formula.number == null ? "" : String(formula.number);
+      } else if (formula?.type === "boolean") {
+        text = formula.boolean == null ? "" : String(formula.boolean);
+      } else if (formula?.type === "date") {
+        text = dateToString(formula.date);
+      }
+      break;
+    }
+    case "rollup": {
+      const rollup = property.rollup;
+      if (rollup?.type === "number") {
+        text = rollup.number == null ? "" : String(rollup.number);
+      } else if (rollup?.type === "date") {
+        text = dateToString(rollup.date);
+      } else if (rollup?.type === "array") {
+        text = (rollup.array ?? [])
+          .map((item) => propertyToString(item))
+          .filter((item): item is string => item !== null)
+          .join(", ");
+      }
+      break;
+    }
+    case "unique_id": {
+      const id = property.unique_id;
+      if (id?.number != null) {
+        text = id.prefix ? `${id.prefix}-${id.number}` : String(id.number);
+      }
+      break;
+    }
+  }
+
+  return text.trim() === "" ? null : text;
+}
@@ -0,0 +1,139 @@
+/**
+ * Duplicate Relation - "Duplicate of" links between group members
+ *
+ * WHY: A flat "Duplicate" label tells reviewers that a page has twins but
+ * not where they are. When DUPLICATE_RELATION_PROPERTY names a relation
+ * property that points back at the same database, every member of a
+ * duplicate group gets a link to the other members.
+ */
+
+import type { DuplicateGroup } from "./groups.ts";
+import type { NotionClient } from "./notion-client.ts";
+import type { NotionPropertyValue } from "./properties.ts";
+import type { NotionDatabase } from "./tag-property.ts";
+
+/**
+ * Notion accepts at most 100 related pages per property in one request
+ */
+export const MAX_RELATION_TARGETS = 100;
+
+/**
+ * Check that the relation property exists and links the database to itself
+ *
+ * @throws If the property is missing, not a relation, or points at another
+ *   database (links would be rejected by Notion on every write)
+ */
+export function validateRelationProperty(
+  database: NotionDatabase,
+  propertyName: string,
+): void {
+  const property = database.properties[propertyName];
+  if (!property) {
+    throw new Error(
+      `Relation property "${propertyName}" not found in database ${database.id}`,
+    );
+  }
+  if (property.type !== "relation") {
+    throw new Error(
+      `Property "${propertyName}" has type "${property.type}", expected "relation"`,
+    );
+  }
+
+  const compact = (id: string | undefined) => id?.replace(/-/g, "");
+  if (compact(property.relation?.database_id) !== compact(database.id)) {
+    throw new Error(
+      `Relation property "${propertyName}" must point at database ${database.id} itself`,
+    );
+  }
+}
+
+/**
+ * Build the PATCH payload linking a page to the other pages in its group
+ *
+ * @param relatedPageIds - Other members (empty to clear the links)
+ * @returns Object to place under `properties` in PATCH /pages/{id}
+ */
+export function buildRelationUpdate(
+  propertyName: string,
+  relatedPageIds: string[],
+): Record<string, unknown> {
+  return {
+    [propertyName]: {
+      relation: relatedPageIds
+        .slice(0, MAX_RELATION_TARGETS)
+        .map((id) => ({ id })),
+    },
+  };
+}
+
+/**
+ * Write the "Duplicate of" relation for group members (if configured)
+ *
+ * WHY every member: Notion only shows a relation on the page it was written
+ * to (unless the property is two-way), so each member links to all others.
+ *
+ * WHY try-catch per page: One page that cannot be updated must not leave
+ * the rest of the group unlinked.
+ *
+ * @param relationProperty - DUPLICATE_RELATION_PROPERTY; nothing is written
+ *   when it is null
+ * @param groups - Groups whose members should link to each other
+ * @param ungrouped - Pages whose links should be cleared (unless a group
+ *   includes them)
+ * @param onError - Called for each page whose update failed
+ * @returns Pages whose links were written
+ */
+export async function applyGroupRelations(
+  notion: NotionClient,
+  relationProperty: string | null,
+  groups: DuplicateGroup[],
+  ungrouped: string[],
+  onError?: (pageId: string, error: unknown) => Promise<void>,
+): Promise<string[]> {
+  if (!relationProperty) {
+    return [];
+  }
+
+  const targets = new Map<string, string[]>(ungrouped.map((id) => [id, []]));
+  for (const group of groups) {
+    for (const member of group.members) {
+      targets.set(member, group.members.filter((id) => id !== member));
+    }
+  }
+
+  const linked: string[] = [];
+  for (const [pageId, related] of targets) {
+    try {
+      await notion.updatePageProperties(pageId, buildRelationUpdate(relationProperty, related));
+      linked.push(pageId);
+    } catch (error) {
+      console.error(`Failed to update "${relationProperty}" on page ${pageId}:`, error);
+      await onError?.(pageId, error);
+    }
+  }
+  return linked;
+}
+
+/**
+ * Build the PATCH payload that brings a page's links to the given pages
+ *
+ * WHY compare first: The retry queue re-syncs the links of every page it
+ * re-tags; most are already right and need no write.
+ *
+ * @param value - Current relation value from GET /pages/{id}
+ * @returns Payload as from buildRelationUpdate, or null if nothing changes
+ */
+export function buildRelationState(
+  propertyName: string,
+  value: NotionPropertyValue | undefined,
+  relatedPageIds: string[],
+): Record<string, unknown> | null {
+  const compact = (id: string) => id.replace(/-/g, "");
+  const current = new Set((value?.relation ?? []).map((page) => compact(page.id)));
+  const wanted = new Set(relatedPageIds.slice(0, MAX_RELATION_TARGETS).map(compact));
+
+  if (current.size === wanted.size && [...wanted].every((id) => current.has(id))) {
+    return null;
+  }
+  return buildRelationUpdate(propertyName, relatedPageIds);
+}
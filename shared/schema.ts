@@ -0,0 +1,412 @@
+/**
+ * Shared SQLite Schema
+ *
+ * The webhook handler and the index builder write the same tables, so the
+ * schema (and its migrations) lives in one place. Every statement is
+ * idempotent and safe to run on each cold start.
+ */
+
+import { type InStatement, sqlite } from "https://esm.town/v/std/sqlite";
+
+/**
+ * Columns added to name_index after the first deployment
+ *
+ * WHY raw_name: Re-normalizing after a pipeline change must start from what
+ * the user typed, not from an older normalized form that already lost
+ * information. Rows indexed before this column existed have NULL here and
+ * are re-normalized from `name` instead.
+ *
+ * WHY normalized_with: Records the normalization fingerprint a row was
+ * produced with, so stale rows can be found and fixed incrementally.
+ *
+ * WHY translit_key: Cyrillic/Latin phonetic skeleton of the normalized name
+ * (shared/transliterate.ts), so "Иванов" and "Ivanov" meet on one key.
+ *
+ * WHY tag_label: The duplicate label last written to (or found on) the
+ * page, so tagging can skip pages that already carry it (shared/tag-state.ts).
+ *
+ * WHY reconciled_pass: The last reconciliation pass that found the page in
+ * Notion; rows a finished scan did not reach are checked for removal.
+ */
+const NAME_INDEX_MIGRATIONS: Array<{ column: string; definition: string }> = [
+  { column: "raw_name", definition: "TEXT" },
+  { column: "normalized_with", definition: "TEXT" },
+  { column: "translit_key", definition: "TEXT" },
+  { column: "tag_label", definition: "TEXT" },
+  { column: "reconciled_pass", definition: "INTEGER" },
+];
+
+/**
+ * Columns added to pending_operations after the first deployment
+ *
+ * WHY regroup: A page whose normalized name changed under it (a new
+ * normalization pipeline) may belong to another duplicate group now, so
+ * draining it also rebuilds its group, not just its tag.
+ */
+const PENDING_OPERATIONS_MIGRATIONS: Array<{ column: string; definition: string }> = [
+  { column: "regroup", definition: "INTEGER NOT NULL DEFAULT 0" },
+];
+
+/**
+ * Columns webhook_events may lack, depending on the version that created it
+ *
+ * WHY delivery_key: Redeliveries were first recognised by payload_hash
+ * alone; see the table below for why they no longer are. Existing rows get
+ * NULL, which never matches, so they are simply not replayed.
+ *
+ * WHY payload_hash: Briefly dropped in favour of delivery_key; tables
+ * created in between get it back (NULL for their rows).
+ */
+const WEBHOOK_EVENTS_MIGRATIONS: Array<{ column: string; definition: string }> = [
+  { column: "delivery_key", definition: "TEXT" },
+  { column: "payload_hash", definition: "TEXT" },
+];
+
+/**
+ * Add any missing columns to an existing table
+ */
+export async function addMissingColumns(
+  table: string,
+  columns: Array<{ column: string; definition: string }>,
+): Promise<void> {
+  const info = await sqlite.execute(`PRAGMA table_info(${table})`);
+  // PRAGMA table_info rows: [cid, name, type, notnull, dflt_value, pk]
+  const existing = new Set(info.rows.map((row: any) => row[1] as string));
+
+  for (const { column, definition } of columns) {
+    if (!existing.has(column)) {
+      await sqlite.execute(
+        `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+}
+
+/**
+ * Names of the three tables that make up one generation of the index
+ */
+export interface IndexTables {
+  names: string;
+  trigrams: string;
+  keys: string;
+}
+
+/**
+ * The generation every script reads and writes
+ */
+export const LIVE_INDEX_TABLES: IndexTables = {
+  names: "name_index",
+  trigrams: "name_trigrams",
+  keys: "match_keys",
+};
+
+/**
+ * Where the index builder rebuilds the next generation before swapping it in
+ */
+export const SHADOW_INDEX_TABLES: IndexTables = {
+  names: "name_index_next",
+  trigrams: "name_trigrams_next",
+  keys: "match_keys_next",
+};
+
+/**
+ * Secondary indexes of the live index tables
+ *
+ * WHY kept apart from the tables: A shadow generation is bulk-loaded
+ * without them (its keys are enough for idempotent inserts), and they are
+ * built once, in the batch that swaps it in (shadowSwapStatements).
+ *
+ * idx_name is the B-tree that makes lookups O(log n): without it, queries
+ * would be table scans, and with 150k+ records real-time detection would
+ * take several seconds per lookup. idx_trigram_page and idx_match_keys_page
+ * find a page's rows when it is re-indexed or removed.
+ */
+const INDEX_TABLE_INDEXES: string[] = [
+  "CREATE INDEX IF NOT EXISTS idx_name ON name_index(name)",
+  "CREATE INDEX IF NOT EXISTS idx_translit_key ON name_index(translit_key)",
+  "CREATE INDEX IF NOT EXISTS idx_trigram_page ON name_trigrams(notion_page_id)",
+  "CREATE INDEX IF NOT EXISTS idx_match_keys_page ON match_keys(notion_page_id)",
+];
+
+/**
+ * Create (or upgrade) the index tables under the given names
+ */
+async function createIndexTables(tables: IndexTables): Promise<void> {
+  /**
+   * name_index: one row per indexed Notion page
+   *
+   * WHY: Val.town provides persistent SQLite storage across function
+   * invocations, allowing us to maintain a searchable index of all names.
+   *
+   * COLLATE NOCASE: Kept for compatibility with existing databases. It only
+   * folds ASCII, so real case folding happens in shared/normalize.ts.
+   *
+   * UNIQUE constraint on notion_page_id: Ensures idempotent operations - if
+   * we receive the same webhook twice, we won't create duplicate entries.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS ${tables.names} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL COLLATE NOCASE,
+      notion_page_id TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await addMissingColumns(tables.names, NAME_INDEX_MIGRATIONS);
+
+  /**
+   * Trigram candidate table for fuzzy matching (only written when enabled)
+   *
+   * WHY a separate table: Fuzzy lookups need "which pages share these
+   * trigrams?", which a B-tree on the full name cannot answer. The composite
+   * primary key makes that an index range scan per trigram, and the page
+   * index lets us find a page's trigrams when it is re-indexed.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS ${tables.trigrams} (
+      trigram TEXT NOT NULL,
+      notion_page_id TEXT NOT NULL,
+      PRIMARY KEY (trigram, notion_page_id)
+    )
+  `);
+
+  /**
+   * Additional match keys (phone, email, tax ID) per page
+   *
+   * WHY a companion table: A page can have several keys of each type, and
+   * key types are optional per deployment, so they don't fit as columns on
+   * name_index. The primary key doubles as the lookup index.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS ${tables.keys} (
+      key_type TEXT NOT NULL,
+      key_value TEXT NOT NULL,
+      notion_page_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (key_type, key_value, notion_page_id)
+    )
+  `);
+}
+
+/**
+ * Create empty shadow index tables, dropping what a cancelled rebuild left
+ */
+export async function createShadowIndexTables(): Promise<void> {
+  await dropShadowIndexTables();
+  await createIndexTables(SHADOW_INDEX_TABLES);
+}
+
+/**
+ * Drop the shadow index tables (a cancelled rebuild)
+ */
+export async function dropShadowIndexTables(): Promise<void> {
+  await sqlite.batch(
+    Object.values(SHADOW_INDEX_TABLES).map((table) => ({
+      sql: `DROP TABLE IF EXISTS ${table}`,
+      args: [],
+    })),
+    "write",
+  );
+}
+
+/**
+ * Statements that replace the live index tables with the shadow ones
+ *
+ * Meant to run in one write batch (a transaction), together with the
+ * caller's own bookkeeping, so a reader sees either generation complete
+ * and never a mix. Tag labels are carried over from the live rows, the
+ * old tables are dropped and the secondary indexes built on the new ones.
+ */
+export function shadowSwapStatements(): InStatement[] {
+  const tables = Object.keys(LIVE_INDEX_TABLES) as Array<keyof IndexTables>;
+  const retired = (table: keyof IndexTables) => `${LIVE_INDEX_TABLES[table]}_retired`;
+
+  return [
+    {
+      sql: `
+        UPDATE ${SHADOW_INDEX_TABLES.names} SET tag_label = (
+          SELECT live.tag_label FROM ${LIVE_INDEX_TABLES.names} live
+          WHERE live.notion_page_id = ${SHADOW_INDEX_TABLES.names}.notion_page_id
+        )
+      `,
+      args: [],
+    },
+    ...tables.map((table) => ({ sql: `DROP TABLE IF EXISTS ${retired(table)}`, args: [] })),
+    ...tables.map((table) => ({
+      sql: `ALTER TABLE ${LIVE_INDEX_TABLES[table]} RENAME TO ${retired(table)}`,
+      args: [],
+    })),
+    ...tables.map((table) => ({
+      sql: `ALTER TABLE ${SHADOW_INDEX_TABLES[table]} RENAME TO ${LIVE_INDEX_TABLES[table]}`,
+      args: [],
+    })),
+    ...tables.map((table) => ({ sql: `DROP TABLE ${retired(table)}`, args: [] })),
+    ...INDEX_TABLE_INDEXES.map((sql) => ({ sql, args: [] })),
+  ];
+}
+
+/**
+ * Create (or upgrade) the tables used for duplicate detection
+ */
+export async function initializeSchema(): Promise<void> {
+  await createIndexTables(LIVE_INDEX_TABLES);
+  for (const sql of INDEX_TABLE_INDEXES) {
+    await sqlite.execute(sql);
+  }
+
+  /**
+   * Page pairs a reviewer confirmed as distinct ("Not Duplicate")
+   *
+   * WHY pairs, not a flag on the page: Two same-named clients may be
+   * different people, yet a third record can still be a real duplicate of
+   * either. page_a < page_b so each pair is stored once; the second index
+   * covers lookups from either side.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS distinct_pairs (
+      page_a TEXT NOT NULL,
+      page_b TEXT NOT NULL,
+      source TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (page_a, page_b)
+    )
+  `);
+
+  await sqlite.execute(`
+    CREATE INDEX IF NOT EXISTS idx_distinct_pairs_b ON distinct_pairs(page_b)
+  `);
+
+  /**
+   * Duplicate groups: pages connected by exact matches (name or match key)
+   *
+   * WHY persistent: Reviewers and the merge workflow need "which pages are
+   * the same client, and which one is the primary record" without
+   * re-running every matcher. A page belongs to at most one group, hence
+   * page_id as the primary key of the membership table.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS duplicate_groups (
+      group_id INTEGER PRIMARY KEY AUTOINCREMENT,
+      primary_page_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS duplicate_group_members (
+      page_id TEXT PRIMARY KEY,
+      group_id INTEGER NOT NULL,
+      added_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await sqlite.execute(`
+    CREATE INDEX IF NOT EXISTS idx_group_members_group ON duplicate_group_members(group_id)
+  `);
+
+  /**
+   * Retry queue for tag updates that failed (shared/pending-operations.ts)
+   *
+   * WHY page_id UNIQUE: Draining re-classifies the page, so one row per page
+   * is enough however often its updates fail. status is "pending" or "dead"
+   * (the dead-letter list).
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS pending_operations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      page_id TEXT NOT NULL UNIQUE,
+      label TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await sqlite.execute(`
+    CREATE INDEX IF NOT EXISTS idx_pending_operations_due
+    ON pending_operations(status, next_attempt_at)
+  `);
+
+  await addMissingColumns("pending_operations", PENDING_OPERATIONS_MIGRATIONS);
+
+  /**
+   * Webhook delivery log: one row per delivery to the main webhook route
+   *
+   * WHY delivery_key: Identifies a delivery across Notion's redeliveries
+   * (shared/webhook-events.ts). A recent non-error row with the same key
+   * lets the handler replay its stored response instead of calling Notion
+   * again. NULL for payloads that carry nothing to identify them by.
+   *
+   * WHY payload_hash too: The raw body's hash is not a reliable identity,
+   * but it shows whether two deliveries carried the same bytes.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      payload_hash TEXT NOT NULL,
+      delivery_key TEXT,
+      page_id TEXT,
+      outcome TEXT NOT NULL,
+      replayed INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL,
+      error TEXT,
+      response TEXT,
+      received_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await addMissingColumns("webhook_events", WEBHOOK_EVENTS_MIGRATIONS);
+
+  await sqlite.execute(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_key ON webhook_events(delivery_key, received_at)
+  `);
+
+  await sqlite.execute(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_page ON webhook_events(page_id)
+  `);
+
+  await sqlite.execute(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_received ON webhook_events(received_at)
+  `);
+
+  /**
+   * Verification tokens from Notion's webhook subscription handshake
+   *
+   * WHY stored, not logged: The token becomes the signing secret
+   * (WEBHOOK_SIGNING_SECRET), and logs only ever show masked secrets. Read
+   * it from the Val's SQLite to paste it into Notion's "Verify" dialog.
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS webhook_verification_tokens (
+      token TEXT PRIMARY KEY,
+      received_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  /**
+   * One drift report per reconciliation pass (shared/drift-reports.ts)
+   *
+   * WHY here rather than in the index builder: The index builder writes the
+   * reports, the webhook serves them (GET /drift).
+   */
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS drift_reports (
+      pass_id INTEGER PRIMARY KEY AUTOINCREMENT,
+      started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      completed_at DATETIME,
+      pages_scanned INTEGER NOT NULL DEFAULT 0,
+      added INTEGER NOT NULL DEFAULT 0,
+      renamed INTEGER NOT NULL DEFAULT 0,
+      keys_updated INTEGER NOT NULL DEFAULT 0,
+      removed INTEGER NOT NULL DEFAULT 0,
+      unreachable INTEGER NOT NULL DEFAULT 0,
+      retags_queued INTEGER NOT NULL DEFAULT 0,
+      examples TEXT
+    )
+  `);
+}
@@ -0,0 +1,239 @@
+/**
+ * Tag Property - Schema-aware reading and writing of the duplicate marker
+ *
+ * WHY: The tag property can be a select, multi_select, checkbox or status
+ * depending on the database. Writing the wrong shape either fails (400 from
+ * Notion) or clobbers other values, so every script learns the real type from
+ * the database schema (GET /databases/{id}) once and uses these helpers for
+ * both the "already tagged?" check and the PATCH payload.
+ */
+
+import type { DuplicateCheckerConfig } from "./config.ts";
+
+export type TagPropertyType = "select" | "multi_select" | "checkbox" | "status";
+
+const SUPPORTED_TYPES: TagPropertyType[] = [
+  "select",
+  "multi_select",
+  "checkbox",
+  "status",
+];
+
+/**
+ * Subset of the GET /databases/{id} response we rely on
+ */
+export interface NotionDatabase {
+  id: string;
+  properties: Record<string, {
+    type: string;
+    status?: { options: Array<{ name: string }> };
+    relation?: { database_id: string };
+  }>;
+}
+
+export interface TagPropertySchema {
+  name: string;
+  type: TagPropertyType;
+  /**
+   * Status properties cannot be emptied, so clearing a tag resets them to
+   * the first option (Notion's default, e.g. "Not started")
+   */
+  defaultStatus?: string;
+}
+
+/**
+ * Current value of the tag property as returned on a page
+ */
+export interface TagPropertyValue {
+  select?: { name: string } | null;
+  multi_select?: Array<{ name: string }>;
+  checkbox?: boolean;
+  status?: { name: string } | null;
+}
+
+/**
+ * Look up the tag property in the database schema and validate it
+ *
+ * @param database - Response from GET /databases/{id}
+ * @param propertyName - Configured tag property name
+ * @param labels - Labels we intend to write (validated for status properties,
+ *   since the API cannot create new status options)
+ * @throws If the property is missing or has an unsupported type
+ */
+export function resolveTagProperty(
+  database: NotionDatabase,
+  propertyName: string,
+  labels: string[],
+): TagPropertySchema {
+  const property = database.properties[propertyName];
+  if (!property) {
+    const available = Object.keys(database.properties).join(", ");
+    throw new Error(
+      `Tag property "${propertyName}" not found in database ${database.id}. ` +
+        `Available properties: ${available}`,
+    );
+  }
+
+  const type = property.type as TagPropertyType;
+  if (!SUPPORTED_TYPES.includes(type)) {
+    throw new Error(
+      `Tag property "${propertyName}" has unsupported type "${property.type}". ` +
+        `Supported types: ${SUPPORTED_TYPES.join(", ")}`,
+    );
+  }
+
+  if (type === "status") {
+    const options = property.status?.options.map((option) => option.name) ?? [];
+    for (const label of labels) {
+      if (!options.includes(label)) {
+        throw new Error(
+          `Status property "${propertyName}" has no "${label}" option. ` +
+            `Add it in Notion first (available: ${options.join(", ")})`,
+        );
+      }
+    }
+    return { name: propertyName, type, defaultStatus: options[0] };
+  }
+
+  return { name: propertyName, type };
+}
+
+/**
+ * Check whether a page's tag property already carries the label
+ *
+ * Checkbox properties have no label - a checked box counts as tagged.
+ */
+export function hasTag(
+  schema: TagPropertySchema,
+  value: TagPropertyValue | undefined,
+  label: string,
+): boolean {
+  const wanted = label.toLowerCase();
+
+  switch (schema.type) {
+    case "select":
+      return value?.select?.name?.toLowerCase() === wanted;
+    case "multi_select":
+      return (value?.multi_select ?? []).some(
+        (tag) => tag.name.toLowerCase() === wanted,
+      );
+    case "checkbox":
+      return value?.checkbox === true;
+    case "status":
+      return value?.status?.name?.toLowerCase() === wanted;
+  }
+}
+
+/**
+ * Whether a reviewer marked the page "Not Duplicate" (and nothing else)
+ *
+ * WHY one helper: The webhook, index builder and local backfill must agree
+ * on which pages are exceptions. A page that also carries one of our labels
+ * (exact or possible) is still being treated as a duplicate. Checkbox
+ * properties have no room for a second value, so they never carry the mark;
+ * there the exception can only be recorded through the /exceptions route.
+ */
+export function hasNotDuplicateMark(
+  schema: TagPropertySchema,
+  value: TagPropertyValue | undefined,
+  config: DuplicateCheckerConfig,
+): boolean {
+  return schema.type !== "checkbox" &&
+    hasTag(schema, value, config.notDuplicateLabel) &&
+    !hasTag(schema, value, config.tagLabel) &&
+    !hasTag(schema, value, config.possibleDuplicateLabel);
+}
+
+/**
+ * Build the PATCH payload that sets the label on the tag property
+ *
+ * WHY pass the current value: multi_select replaces the whole array, so we
+ * must keep the page's other tags when adding ours.
+ *
+ * @param replaceLabels - multi_select values to drop while adding the label
+ *   (select and status are replaced anyway), e.g. a stale "Not Duplicate"
+ * @returns Object to place under `properties` in PATCH /pages/{id}
+ */
+export function buildTagUpdate(
+  schema: TagPropertySchema,
+  value: TagPropertyValue | undefined,
+  label: string,
+  replaceLabels: string[] = [],
+): Record<string, unknown> {
+  const replaced = new Set(replaceLabels.map((name) => name.toLowerCase()));
+
+  switch (schema.type) {
+    case "select":
+      return { [schema.name]: { select: { name: label } } };
+    case "multi_select":
+      return {
+        [schema.name]: {
+          multi_select: [
+            ...(value?.multi_select ?? [])
+              .filter((tag) => !replaced.has(tag.name.toLowerCase()))
+              .map((tag) => ({ name: tag.name })),
+            { name: label },
+          ],
+        },
+      };
+    case "checkbox":
+      return { [schema.name]: { checkbox: true } };
+    case "status":
+      return { [schema.name]: { status: { name: label } } };
+  }
+}
+
+/**
+ * Build the PATCH payload that puts the tag property into an exact state
+ *
+ * Unlike buildTagUpdate (which only adds), this also removes labels: used
+ * when a page is re-evaluated after a rename or delete and may have become
+ * unique, or moved from an exact to a possible duplicate.
+ *
+ * @param label - Label the page should carry, or null for "not a duplicate"
+ * @param managedLabels - All labels this tool writes; other multi_select
+ *   values and other select/status values are left untouched
+ * @returns Object to place under `properties`, or null if no change is needed
+ */
+export function buildTagState(
+  schema: TagPropertySchema,
+  value: TagPropertyValue | undefined,
+  label: string | null,
+  managedLabels: string[],
+): Record<string, unknown> | null {
+  const managed = new Set(managedLabels.map((name) => name.toLowerCase()));
+
+  switch (schema.type) {
+    case "select":
+    case "status": {
+      const current = (schema.type === "select" ? value?.select : value?.status)?.name;
+      if (label !== null) {
+        return current?.toLowerCase() === label.toLowerCase()
+          ? null
+          : buildTagUpdate(schema, value, label);
+      }
+      if (!current || !managed.has(current.toLowerCase())) {
+        return null;
+      }
+      return schema.type === "select"
+        ? { [schema.name]: { select: null } }
+        : { [schema.name]: { status: { name: schema.defaultStatus } } };
+    }
+    case "multi_select": {
+      const current = value?.multi_select ?? [];
+      const kept = current.filter((tag) => !managed.has(tag.name.toLowerCase()));
+      const desired = label !== null ? [...kept, { name: label }] : kept;
+      const unchanged = desired.length === current.length &&
+        desired.every((tag) =>
+          current.some((existing) => existing.name.toLowerCase() === tag.name.toLowerCase())
+        );
+      return unchanged
+        ? null
+        : { [schema.name]: { multi_select: desired.map((tag) => ({ name: tag.name })) } };
+    }
+    case "checkbox": {
+      const checked = label !== null;
+      return value?.checkbox === checked ? null : { [schema.name]: { checkbox: checked } };
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Tag State - The duplicate label each indexed page last carried
+ *
+ * WHY: Tagging a match used to cost a GET (to read the tag property) and a
+ * PATCH for every member of the group, on every new duplicate. The label we
+ * last wrote to a page (or found on it) is kept in name_index.tag_label, so
+ * members that already carry it are skipped without calling Notion at all.
+ *
+ * NULL means unknown as well as untagged: only a recorded label is trusted,
+ * anything else is read from Notion as before. A label removed by hand is
+ * picked up the next time the page's own webhook (or a re-evaluation)
+ * writes its tag.
+ */
+
+import { sqlite } from "https://esm.town/v/std/sqlite";
+
+/**
+ * Recorded labels for the given pages (pages without one are left out)
+ */
+export async function knownTagLabels(pageIds: string[]): Promise<Map<string, string>> {
+  if (pageIds.length === 0) {
+    return new Map();
+  }
+
+  const result = await sqlite.execute({
+    sql: `
+      SELECT notion_page_id, tag_label FROM name_index
+      WHERE tag_label IS NOT NULL
+        AND notion_page_id IN (${pageIds.map(() => "?").join(", ")})
+    `,
+    args: pageIds,
+  });
+
+  // Val.town SQLite returns rows as arrays, not objects
+  return new Map(result.rows.map((row: any) => [row[0] as string, row[1] as string]));
+}
+
+/**
+ * Record the labels pages carry after a successful tag update
+ *
+ * @param labels - Label per page, null for a cleared tag
+ */
+export async function recordTagLabels(
+  labels: Array<{ pageId: string; label: string | null }>,
+): Promise<void> {
+  if (labels.length === 0) {
+    return;
+  }
+
+  await sqlite.batch(
+    labels.map(({ pageId, label }) => ({
+      sql: "UPDATE name_index SET tag_label = ? WHERE notion_page_id = ?",
+      args: [label, pageId],
+    })),
+    "write",
+  );
+}
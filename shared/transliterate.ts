@@ -0,0 +1,109 @@
+/**
+ * Transliteration Key - Matching names across Cyrillic and Latin spellings
+ *
+ * WHY: The same client is often entered once in Cyrillic and once in Latin
+ * ("Иванов Сергей" vs "Ivanov Sergey"). There is no single correct
+ * romanization - ГОСТ/ISO 9 gives "Sergej", passports give "Sergei", people
+ * type "Sergey" - so instead of transliterating one way we reduce every
+ * spelling to a phonetic skeleton that the common variants share:
+ *
+ *   "Иванов Сергей", "Ivanov Sergey", "Ivanov Sergej" → "ivanov sergei"
+ *   "Щукин", "Shchukin", "Schukin", "Ŝukin"           → "sukin"
+ *
+ * The key is lossy on purpose, so matches on it are reported separately
+ * from exact matches. Input must already be normalized (shared/normalize.ts).
+ */
+
+/**
+ * Bump whenever the key below changes, so stored keys are recomputed
+ * (the version is part of the normalization fingerprint)
+ */
+export const TRANSLITERATION_VERSION = 1;
+
+/**
+ * Cyrillic → Latin, informal/passport style (ISO 9 and ГОСТ letters with
+ * diacritics are handled by stripping marks before the folding rules)
+ */
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ё: "e",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "i",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  і: "i",
+  ї: "i",
+  є: "e",
+  ґ: "g",
+};
+
+/**
+ * Folding rules applied in order to the romanized string
+ *
+ * Digraphs first (so "shch" is not eaten by "sh"), then iotated vowels
+ * ("ya", "ja", and passport-style "ia" at a word start or after a vowel),
+ * then the remaining y/j, which all romanizations use for й/ы.
+ */
+const FOLDING_RULES: Array<[RegExp, string]> = [
+  [/shch|sch/g, "s"],
+  [/sh/g, "s"],
+  [/zh/g, "z"],
+  [/ch/g, "c"],
+  [/kh/g, "h"],
+  [/ts|tz/g, "c"],
+  [/x/g, "ks"],
+  [/w/g, "v"],
+  [/ph/g, "f"],
+  [/ck/g, "k"],
+  [/i[yj]([aoue])/g, "i$1"],
+  [/(^|[ aeiou])i([aoue])/g, "$1$2"],
+  [/[yj]([aoue])/g, "$1"],
+  [/[yj]/g, "i"],
+  [/(\p{L})\1+/gu, "$1"],
+];
+
+/**
+ * Compute the transliteration key for a normalized name
+ *
+ * @param normalizedName - Output of normalizeName()
+ * @returns Latin phonetic skeleton ("" if the name has no letters)
+ */
+export function transliterationKey(normalizedName: string): string {
+  let key = Array.from(
+    normalizedName.normalize("NFD").replace(/\p{M}/gu, ""),
+    (char) => CYRILLIC_TO_LATIN[char] ?? char,
+  ).join("");
+
+  for (const [pattern, replacement] of FOLDING_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+
+  return key.replace(/[^\p{L}\p{N} ]/gu, "").trim();
+}
@@ -0,0 +1,141 @@
+/**
+ * Webhook Authentication - Shared secret and HMAC-SHA256 signatures
+ *
+ * WHY: The Val URL is public. Without a check, anyone who knows it can post
+ * a fake page, get it into name_index and make us tag real pages. Two
+ * schemes are accepted, and a request passes if either one does:
+ *
+ * - Shared secret: the caller sends WEBHOOK_SHARED_SECRET in the
+ *   X-Webhook-Secret header (Notion automations can add custom headers;
+ *   the local backfill sends it too).
+ * - Signature: X-Notion-Signature is "sha256=" + hex HMAC-SHA256 of the raw
+ *   body keyed with WEBHOOK_SIGNING_SECRET - the scheme Notion's native
+ *   webhooks use, with the subscription's verification token as the key.
+ *
+ * Secrets come from env vars only (never DUPLICATE_CHECKER_CONFIG, which is
+ * easy to paste into a ticket). With neither set, every request passes,
+ * which keeps existing deployments working - except on routes that change
+ * data, which check hasWebhookSecret() and refuse requests instead.
+ */
+
+export const SHARED_SECRET_HEADER = "X-Webhook-Secret";
+export const SIGNATURE_HEADER = "X-Notion-Signature";
+
+export interface WebhookSecrets {
+  sharedSecret: string | null;
+  signingSecret: string | null;
+}
+
+export interface AuthResult {
+  ok: boolean;
+  /** Why the request was rejected (secrets masked), when ok is false */
+  reason?: string;
+}
+
+/**
+ * Read the configured secrets (empty values count as unset)
+ */
+export function loadWebhookSecrets(): WebhookSecrets {
+  const read = (name: string) => {
+    const value = Deno.env.get(name)?.trim();
+    return value ? value : null;
+  };
+
+  return {
+    sharedSecret: read("WEBHOOK_SHARED_SECRET"),
+    signingSecret: read("WEBHOOK_SIGNING_SECRET"),
+  };
+}
+
+/**
+ * Whether at least one secret is configured
+ */
+export function hasWebhookSecret(secrets: WebhookSecrets): boolean {
+  return secrets.sharedSecret !== null || secrets.signingSecret !== null;
+}
+
+/**
+ * Mask a secret (or a value a caller sent in its place) for logging
+ *
+ * Shows only the length. WHY no prefix: The values logged come from the
+ * request, and a near-miss or a rotated secret would otherwise leak part
+ * of a real secret into the Val.town logs.
+ */
+export function maskSecret(value: string | null | undefined): string {
+  if (!value) {
+    return "(none)";
+  }
+  return `*** (${value.length} chars)`;
+}
+
+/**
+ * Compare two strings without leaking where they differ through timing
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Compute the X-Notion-Signature header value for a body
+ */
+export async function signBody(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body));
+  const hex = [...new Uint8Array(mac)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${hex}`;
+}
+
+/**
+ * Check a request against the configured secrets
+ *
+ * @param headers - Request headers
+ * @param rawBody - Body exactly as received (the signature covers the bytes,
+ *   so it must be checked before JSON parsing)
+ */
+export async function verifyWebhookRequest(
+  headers: Headers,
+  rawBody: string,
+  secrets: WebhookSecrets,
+): Promise<AuthResult> {
+  if (!secrets.sharedSecret && !secrets.signingSecret) {
+    return { ok: true };
+  }
+
+  const sentSecret = headers.get(SHARED_SECRET_HEADER);
+  const sentSignature = headers.get(SIGNATURE_HEADER);
+
+  if (secrets.sharedSecret && sentSecret && timingSafeEqual(sentSecret, secrets.sharedSecret)) {
+    return { ok: true };
+  }
+  if (secrets.signingSecret && sentSignature) {
+    const expected = await signBody(secrets.signingSecret, rawBody);
+    if (timingSafeEqual(sentSignature.trim().toLowerCase(), expected)) {
+      return { ok: true };
+    }
+  }
+
+  if (!sentSecret && !sentSignature) {
+    return { ok: false, reason: `missing ${SHARED_SECRET_HEADER} and ${SIGNATURE_HEADER} headers` };
+  }
+  return {
+    ok: false,
+    reason: [
+      sentSecret ? `${SHARED_SECRET_HEADER} ${maskSecret(sentSecret)} does not match` : null,
+      sentSignature ? `${SIGNATURE_HEADER} ${maskSecret(sentSignature)} does not match the body` : null,
+    ].filter(Boolean).join("; "),
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Webhook Events - Delivery log and redelivery detection
+ *
+ * WHY: The Val.town console only keeps recent logs and cannot answer "what
+ * happened to the webhook for page X yesterday?". Every delivery to the main
+ * webhook route is recorded in webhook_events (shared/schema.ts) with its
+ * outcome, duration and response. The same rows let the handler recognise
+ * Notion's redeliveries and replay the stored result without touching
+ * Notion again.
+ */
+
+import { type InValue, sqlite } from "https://esm.town/v/std/sqlite";
+
+/**
+ * What the handler did with a delivery
+ *
+ * - duplicate: the page matched at least one other page
+ * - unique:    indexed (or updated) without matches
+ * - removed:   archived or deleted page taken out of the index
+ * - skipped:   nothing to do (bad payload, other database, ...)
+ * - error:     processing failed (never replayed, so a retry runs again)
+ */
+export type WebhookOutcome = "duplicate" | "unique" | "removed" | "skipped" | "error";
+
+const OUTCOMES: WebhookOutcome[] = ["duplicate", "unique", "removed", "skipped", "error"];
+
+export interface WebhookEvent {
+  id: number;
+  /** Identity across redeliveries (see deliveryKey), null if there is none */
+  deliveryKey: string | null;
+  /** Hex SHA-256 of the raw body (null for rows logged without one) */
+  payloadHash: string | null;
+  pageId: string | null;
+  outcome: WebhookOutcome;
+  replayed: boolean;
+  durationMs: number;
+  error: string | null;
+  /** Response body sent for the delivery (JSON text) */
+  response: string | null;
+  receivedAt: string;
+}
+
+/**
+ * Days of events to keep; older rows are pruned as new ones are recorded
+ */
+const RETENTION_DAYS = 30;
+
+/**
+ * Hex SHA-256 of a string
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Hash of the raw request body, stored with every event
+ *
+ * WHY kept next to the delivery key: It is not used to detect redeliveries
+ * (see deliveryKey), but it tells whether two deliveries of the same page
+ * sent the same bytes.
+ */
+export async function payloadHash(rawBody: string): Promise<string> {
+  return await sha256(rawBody);
+}
+
+/**
+ * Identify a delivery so a redelivery of it can be recognised
+ *
+ * - Integration events: the event ID, which Notion keeps across retries
+ * - Automation payloads: the page ID and last_edited_time, plus a digest of
+ *   the page state sent (Notion rounds last_edited_time to the minute, so
+ *   two edits in one minute share it)
+ *
+ * WHY not the raw body: A minimal {"id": ...} payload is byte-identical for
+ * every edit of the page, so a second edit within the window was replayed
+ * and never processed; a per-attempt field in a real redelivery changes the
+ * bytes, so the redelivery was processed again. Payloads without an event
+ * ID or last_edited_time get no key and are always processed.
+ *
+ * @param body - Parsed request body
+ * @returns null if the delivery cannot be identified
+ */
+export async function deliveryKey(body: any): Promise<string | null> {
+  if (typeof body?.type === "string" && typeof body?.id === "string" && body?.entity) {
+    return `event:${body.id}`;
+  }
+
+  const page = body?.data ?? body;
+  if (typeof page?.id !== "string" || typeof page?.last_edited_time !== "string") {
+    return null;
+  }
+  const state = await sha256(
+    JSON.stringify([page.properties ?? null, page.archived ?? null, page.in_trash ?? null]),
+  );
+  return `page:${page.id}:${page.last_edited_time}:${state}`;
+}
+
+/**
+ * Classify a webhook response body into an outcome
+ */
+export function outcomeOf(body: any): WebhookOutcome {
+  if (body?.skipped) {
+    return "skipped";
+  }
+  if (body?.success === false) {
+    return "error";
+  }
+  if (body?.removed !== undefined) {
+    return "removed";
+  }
+  return body?.duplicate ? "duplicate" : "unique";
+}
+
+function toEvent(row: any): WebhookEvent {
+  // Val.town SQLite returns rows as arrays, not objects
+  return {
+    id: Number(row[0]),
+    deliveryKey: row[1] as string | null,
+    pageId: row[2] as string | null,
+    outcome: row[3] as WebhookOutcome,
+    replayed: Number(row[4]) === 1,
+    durationMs: Number(row[5]),
+    error: row[6] as string | null,
+    response: row[7] as string | null,
+    receivedAt: row[8] as string,
+    payloadHash: row[9] as string | null,
+  };
+}
+
+const EVENT_COLUMNS =
+  "id, delivery_key, page_id, outcome, replayed, duration_ms, error, response, received_at, " +
+  "payload_hash";
+
+/**
+ * Find the latest processed delivery with the same key within a window
+ *
+ * Errors are ignored, so a redelivery after a failure is processed again.
+ *
+ * @returns null if there is none (or the window is 0)
+ */
+export async function findRecentDelivery(
+  key: string,
+  windowSeconds: number,
+): Promise<WebhookEvent | null> {
+  if (windowSeconds <= 0) {
+    return null;
+  }
+
+  const result = await sqlite.execute({
+    sql: `
+      SELECT ${EVENT_COLUMNS} FROM webhook_events
+      WHERE delivery_key = ?
+        AND outcome != 'error'
+        AND replayed = 0
+        AND received_at >= datetime('now', ?)
+      ORDER BY id DESC
+      LIMIT 1
+    `,
+    args: [key, `-${Math.floor(windowSeconds)} seconds`],
+  });
+
+  return result.rows.length > 0 ? toEvent(result.rows[0]) : null;
+}
+
+/**
+ * Record a delivery and prune events past the retention period
+ */
+export async function recordWebhookEvent(event: {
+  deliveryKey: string | null;
+  payloadHash: string;
+  pageId: string | null;
+  outcome: WebhookOutcome;
+  replayed?: boolean;
+  durationMs: number;
+  error?: string | null;
+  response?: string | null;
+}): Promise<void> {
+  await sqlite.batch([
+    {
+      sql: `
+        INSERT INTO webhook_events
+          (delivery_key, payload_hash, page_id, outcome, replayed, duration_ms, error, response)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        event.deliveryKey,
+        event.payloadHash,
+        event.pageId,
+        event.outcome,
+        event.replayed ? 1 : 0,
+        Math.round(event.durationMs),
+        event.error ?? null,
+        event.response ?? null,
+      ],
+    },
+    {
+      sql: "DELETE FROM webhook_events WHERE received_at < datetime('now', ?)",
+      args: [`-${RETENTION_DAYS} days`],
+    },
+  ], "write");
+}
+
+/**
+ * List recent events, newest first
+ *
+ * @param filter.limit - At most 500 (default 50)
+ */
+export async function listWebhookEvents(filter: {
+  pageId?: string;
+  outcome?: string;
+  limit?: number;
+}): Promise<WebhookEvent[]> {
+  const conditions: string[] = [];
+  const args: InValue[] = [];
+  if (filter.pageId) {
+    conditions.push("page_id = ?");
+    args.push(filter.pageId);
+  }
+  if (filter.outcome) {
+    if (!OUTCOMES.includes(filter.outcome as WebhookOutcome)) {
+      throw new Error(`Unknown outcome "${filter.outcome}" (expected ${OUTCOMES.join(", ")})`);
+    }
+    conditions.push("outcome = ?");
+    args.push(filter.outcome);
+  }
+
+  const limit = Math.min(Math.max(Math.floor(filter.limit ?? 50), 1), 500);
+  const result = await sqlite.execute({
+    sql: `
+      SELECT ${EVENT_COLUMNS} FROM webhook_events
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY id DESC
+      LIMIT ?
+    `,
+    args: [...args, limit],
+  });
+
+  return result.rows.map(toEvent);
+}